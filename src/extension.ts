@@ -1,5 +1,7 @@
-import { exec } from "child_process";
+import { ChildProcess, exec, spawn } from "child_process";
 import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
 
@@ -14,69 +16,72 @@ interface FileScriptType {
   iconFile: string;
   /** Optional separate icon for individual file items (falls back to theme resourceUri if unset) */
   fileIconFile?: string;
-  makeCommand: (filename: string) => string;
+  /** the command that runs a file; `quote` quotes the path for the script's shell */
+  makeCommand: (filename: string, quote: (arg: string) => string) => string;
   boilerplate: string;
+  /** the command comes from runway.scriptTypes, so it wins over a shebang */
+  configured?: boolean;
 }
 
-const FILE_SCRIPT_TYPES: FileScriptType[] = [
+const BUILTIN_SCRIPT_TYPES: FileScriptType[] = [
   {
     kind: "shell", label: "Shell Scripts",
     extensions: [".sh", ".bash", ".zsh"], iconFile: "shell.svg", fileIconFile: "emoji-shell.svg",
-    makeCommand: (f) => `bash "${f}"`,
+    makeCommand: (f, q) => `bash ${q(f)}`,
     boilerplate: "#!/bin/bash\nset -e\n\n# TODO: add your commands here\n",
   },
   {
     kind: "python", label: "Python Scripts",
     extensions: [".py"], iconFile: "python.svg",
-    makeCommand: (f) => `python3 "${f}"`,
+    makeCommand: (f, q) => `python3 ${q(f)}`,
     boilerplate: "#!/usr/bin/env python3\n\ndef main():\n    pass\n\nif __name__ == '__main__':\n    main()\n",
   },
   {
     kind: "javascript", label: "JavaScript Scripts",
     extensions: [".js", ".mjs", ".cjs"], iconFile: "js.svg",
-    makeCommand: (f) => `node "${f}"`,
+    makeCommand: (f, q) => `node ${q(f)}`,
     boilerplate: "#!/usr/bin/env node\n\nasync function main() {\n  // TODO\n}\n\nmain().catch(console.error);\n",
   },
   {
     kind: "typescript", label: "TypeScript Scripts",
     extensions: [".ts"], iconFile: "ts.svg",
-    makeCommand: (f) => `npx tsx "${f}"`,
+    makeCommand: (f, q) => `npx tsx ${q(f)}`,
     boilerplate: "#!/usr/bin/env npx tsx\n\nasync function main(): Promise<void> {\n  // TODO\n}\n\nmain().catch(console.error);\n",
   },
   {
     kind: "ruby", label: "Ruby Scripts",
     extensions: [".rb"], iconFile: "ruby.svg",
-    makeCommand: (f) => `ruby "${f}"`,
+    makeCommand: (f, q) => `ruby ${q(f)}`,
     boilerplate: "#!/usr/bin/env ruby\n\n# TODO\n",
   },
   {
     kind: "php", label: "PHP Scripts",
     extensions: [".php"], iconFile: "php.svg",
-    makeCommand: (f) => `php "${f}"`,
+    makeCommand: (f, q) => `php ${q(f)}`,
     boilerplate: "<?php\n\n// TODO\n",
   },
   {
     kind: "perl", label: "Perl Scripts",
     extensions: [".pl"], iconFile: "perl.svg",
-    makeCommand: (f) => `perl "${f}"`,
+    makeCommand: (f, q) => `perl ${q(f)}`,
     boilerplate: "#!/usr/bin/env perl\nuse strict;\nuse warnings;\n\n# TODO\n",
   },
   {
     kind: "powershell", label: "PowerShell Scripts",
     extensions: [".ps1"], iconFile: "powershell.svg",
-    makeCommand: (f) => `pwsh "${f}"`,
+    makeCommand: (f, q) => `pwsh ${q(f)}`,
     boilerplate: "# TODO\n",
   },
   {
     kind: "go", label: "Go Scripts",
     extensions: [".go"], iconFile: "go.svg",
-    makeCommand: (f) => `go run "${f}"`,
+    makeCommand: (f, q) => `go run ${q(f)}`,
     boilerplate: "package main\n\nimport \"fmt\"\n\nfunc main() {\n\tfmt.Println(\"Hello\")\n}\n",
   },
   {
     kind: "swift", label: "Swift Scripts",
     extensions: [".swift"], iconFile: "swift.svg",
-    makeCommand: (f) => `swift "${f}"`,
+    makeCommand: (f, q) => `swift ${q(f)}`,
     boilerplate: "#!/usr/bin/env swift\n\nimport Foundation\n\n// TODO\n",
   },
   {
@@ -87,9 +92,88 @@ const FILE_SCRIPT_TYPES: FileScriptType[] = [
   },
 ];
 
+/** A script type added or changed through the runway.scriptTypes setting (keyed by kind). */
+interface ScriptTypeSetting {
+  label?: string;
+  extensions?: string[];
+  /** command template; `${file}` is replaced by the script's path, quoted for its shell */
+  command?: string;
+  /** image path (absolute or workspace-relative) or `$(codicon)` */
+  icon?: string;
+  boilerplate?: string;
+}
+
+/**
+ * The merged registry — built-in types with runway.scriptTypes applied.
+ * Both are rebuilt in place by applyScriptTypeSettings() when settings change.
+ */
+const FILE_SCRIPT_TYPES: FileScriptType[] = [];
 const EXT_TO_TYPE = new Map<string, FileScriptType>();
-for (const t of FILE_SCRIPT_TYPES) {
-  for (const ext of t.extensions) EXT_TO_TYPE.set(ext, t);
+
+function commandTemplate(template: string): FileScriptType["makeCommand"] {
+  return (f, q) => template.includes("${file}") ? template.split("${file}").join(q(f)) : `${template} ${q(f)}`;
+}
+
+/**
+ * Rebuilds the registry.  A setting whose key is a built-in kind
+ * (`typescript`, `shell`, …) changes that type; any other key adds a type,
+ * which needs at least extensions and a command.  Extensions claimed by a
+ * configured type are taken away from the others.
+ *
+ * @param root folder that relative icon paths are resolved against
+ */
+function applyScriptTypeSettings(settings: Record<string, ScriptTypeSetting>, root?: string) {
+  const types = BUILTIN_SCRIPT_TYPES.map((t) => ({ ...t }));
+  const claimed = new Map<string, FileScriptType>();
+
+  for (const [kind, setting] of Object.entries(settings)) {
+    if (kind === "makefile" || !setting || typeof setting !== "object") continue;
+    let type = types.find((t) => t.kind === kind);
+    if (!type) {
+      if (!setting.extensions?.length || !setting.command) continue;
+      type = {
+        kind, label: setting.label ?? `${kind} Scripts`, extensions: [], iconFile: "$(file-code)",
+        makeCommand: commandTemplate(setting.command), boilerplate: "",
+      };
+      types.splice(types.length - 1, 0, type); // keep Makefile last
+    }
+    if (setting.label) type.label = setting.label;
+    if (setting.command) {
+      type.makeCommand = commandTemplate(setting.command);
+      type.configured = true;
+    }
+    if (setting.extensions?.length) {
+      type.extensions = setting.extensions.map((e) => (e.startsWith(".") ? e : `.${e}`));
+      for (const ext of type.extensions) claimed.set(ext, type);
+    }
+    if (setting.icon) {
+      const icon = setting.icon.startsWith("$(") || path.isAbsolute(setting.icon) || !root
+        ? setting.icon
+        : path.join(root, setting.icon);
+      type.iconFile = icon;
+      type.fileIconFile = icon;
+    }
+    if (setting.boilerplate !== undefined) type.boilerplate = setting.boilerplate;
+  }
+
+  for (const type of types) {
+    type.extensions = type.extensions.filter((ext) => (claimed.get(ext) ?? type) === type);
+  }
+  FILE_SCRIPT_TYPES.splice(0, FILE_SCRIPT_TYPES.length, ...types);
+  EXT_TO_TYPE.clear();
+  for (const t of FILE_SCRIPT_TYPES) {
+    for (const ext of t.extensions) EXT_TO_TYPE.set(ext, t);
+  }
+}
+
+applyScriptTypeSettings({});
+
+/** Applies runway.scriptTypes (user and workspace values, merged by VS Code). */
+function loadScriptTypes() {
+  applyScriptTypeSettings(
+    vscode.workspace.getConfiguration("runway").get<Record<string, ScriptTypeSetting>>("scriptTypes", {}),
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -139,51 +223,124 @@ function isBunShebang(filePath: string): boolean {
 // Source store  (workspace-state — not committed to settings.json)
 // ---------------------------------------------------------------------------
 
-type SourceType = "packageJson" | "directory" | "file";
+type SourceType = "packageJson" | "directory" | "file" | "workspace" | TaskSourceType;
+
+/** Environment for a script or source: inline variables plus .env files. */
+interface EnvSpec {
+  env?: Record<string, string>;
+  /** .env files, absolute or relative to the owning directory */
+  envFiles?: string[];
+}
 
-interface Source {
+interface Source extends EnvSpec {
   type: SourceType;
-  /** absolute path */
+  /** absolute path (the root directory for workspace sources) */
   path: string;
+  /** named environment profiles, e.g. "local" or "staging" */
+  profiles?: Record<string, EnvSpec>;
+  /** profile applied on top of the source's own environment */
+  activeProfile?: string;
+  /** directory sources: also scan subfolders */
+  recursive?: boolean;
+  /** directory sources: how many subfolder levels to scan when recursive (unlimited if unset) */
+  maxDepth?: number;
+  /** directory sources: only list files matching one of these globs */
+  include?: string[];
+  /** directory sources: skip files and folders matching these globs (replaces the defaults) */
+  exclude?: string[];
+  /** Python for this source's scripts instead of the detected one; "system" turns detection off */
+  python?: string;
+  /** Node version for this source's scripts instead of the pinned one; "system" turns detection off */
+  node?: string;
+  /** shell for this source's scripts: a terminal profile name or a shell path with arguments */
+  shell?: string;
 }
 
 class SourceStore {
   private static readonly KEY = "runway.sources";
-  constructor(private readonly state: vscode.Memento) {}
+  constructor(private readonly state: vscode.Memento, private readonly team?: TeamConfig) {}
 
+  /** Personal sources merged with the team config (personal entries win). */
   getAll(): Source[] {
+    const personal = this.personal();
+    const shared = (this.team?.sources() ?? []).filter(
+      (t) => !personal.some((s) => s.path === t.path && s.type === t.type)
+    );
+    return [...personal, ...shared];
+  }
+
+  /** Sources stored in workspaceState only. */
+  personal(): Source[] {
     const raw = this.state.get<Source[]>(SourceStore.KEY) ?? [];
     // Normalise any symlink-resolved paths that were stored before the fix
     return raw.map((s) => ({ ...s, path: resolveToWorkspace(s.path) }));
   }
 
+  /** True when the source only exists because the team config declares it. */
+  isShared(sourcePath: string): boolean {
+    return !this.personal().some((s) => s.path === sourcePath) &&
+      (this.team?.sources() ?? []).some((s) => s.path === sourcePath);
+  }
+
   async add(source: Source): Promise<boolean> {
-    const all = this.getAll();
-    if (all.some((s) => s.path === source.path && s.type === source.type)) return false;
-    await this.state.update(SourceStore.KEY, [...all, source]);
+    if (this.getAll().some((s) => s.path === source.path && s.type === source.type)) return false;
+    await this.state.update(SourceStore.KEY, [...this.personal(), source]);
     return true;
   }
 
+  /** Copies team-config sources into workspaceState; returns how many were new. */
+  async importShared(): Promise<number> {
+    const personal = this.personal();
+    const missing = (this.team?.sources() ?? []).filter(
+      (t) => !personal.some((s) => s.path === t.path && s.type === t.type)
+    );
+    if (missing.length) await this.state.update(SourceStore.KEY, [...personal, ...missing]);
+    return missing.length;
+  }
+
+  /**
+   * Updates a source's settings.  A source that only exists in the team
+   * config gets a personal copy, which then wins over the team entry.
+   */
+  async update(sourcePath: string, patch: Partial<Source>): Promise<void> {
+    const source = this.getAll().find((s) => s.path === sourcePath);
+    if (!source) return;
+    const personal = this.personal();
+    const updated = { ...source, ...patch };
+    const idx = personal.findIndex((s) => s.path === sourcePath);
+    if (idx >= 0) personal[idx] = updated;
+    else personal.push(updated);
+    await this.state.update(SourceStore.KEY, personal);
+  }
+
   async remove(sourcePath: string): Promise<void> {
     await this.state.update(
       SourceStore.KEY,
-      this.getAll().filter((s) => s.path !== sourcePath)
+      this.personal().filter((s) => s.path !== sourcePath)
     );
   }
 }
 
 // ---------------------------------------------------------------------------
-// Generic key-value store for overrides and labels
+// Generic key-value store for overrides, labels and other per-script settings
 // ---------------------------------------------------------------------------
 
-class ScriptStore {
-  constructor(private readonly state: vscode.Memento, private readonly key: string) {}
+class ScriptStore<T = string> {
+  /**
+   * @param shared optional team-config values consulted when the personal
+   *   store has no entry for an id
+   */
+  constructor(
+    private readonly state: vscode.Memento,
+    private readonly key: string,
+    private readonly shared?: () => Record<string, T>
+  ) {}
 
-  get(id: string): string | undefined {
-    return this.all()[id];
+  get(id: string): T | undefined {
+    return this.all()[id] ?? this.shared?.()[id];
   }
 
-  async set(id: string, value: string) {
+  async set(id: string, value: T) {
     const all = this.all();
     all[id] = value;
     await this.state.update(this.key, all);
@@ -195,8 +352,203 @@ class ScriptStore {
     await this.state.update(this.key, all);
   }
 
-  private all(): Record<string, string> {
-    return this.state.get<Record<string, string>>(this.key) ?? {};
+  /** Copy of the personal (workspace-state) entries, without team values. */
+  personal(): Record<string, T> {
+    return { ...this.all() };
+  }
+
+  private all(): Record<string, T> {
+    return this.state.get<Record<string, T>>(this.key) ?? {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Team config  (.runway.json — committed alongside the code)
+// ---------------------------------------------------------------------------
+
+/**
+ * On-disk shape of `.runway.json` / `.vscode/runway.json`.  All paths are
+ * workspace-relative, including the path portion of script ids
+ * (e.g. `npm:packages/web/package.json:dev`).
+ */
+interface TeamConfigFile {
+  sources?: Source[];
+  overrides?: Record<string, string>;
+  labels?: Record<string, string>;
+  favorites?: string[];
+}
+
+/** Script id with its path made workspace-relative, or undefined if external. */
+function toSharedId(id: string, root: string): string | undefined {
+  const colon = id.indexOf(":");
+  const rest = id.slice(colon + 1);
+  if (!rest.startsWith(root + path.sep)) return undefined;
+  return id.slice(0, colon + 1) + rest.slice(root.length + 1).split(path.sep).join("/");
+}
+
+/** Inverse of toSharedId — resolves the path portion against `root`. */
+function fromSharedId(id: string, root: string): string {
+  const colon = id.indexOf(":");
+  const rest = id.slice(colon + 1);
+  if (path.isAbsolute(rest)) return id;
+  return id.slice(0, colon + 1) + path.join(root, rest);
+}
+
+/** Copies an EnvSpec with its .env file paths passed through `fn`; files it maps to undefined are dropped. */
+function mapEnvFiles<T extends EnvSpec>(spec: T, fn: (file: string) => string | undefined): T {
+  if (!spec.envFiles) return spec;
+  const envFiles = spec.envFiles.flatMap((f) => fn(f) ?? []);
+  return { ...spec, envFiles: envFiles.length ? envFiles : undefined };
+}
+
+function mapKeys(record: Record<string, string>, fn: (id: string) => string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [id, value] of Object.entries(record)) {
+    const mapped = fn(id);
+    if (mapped !== undefined) out[mapped] = value;
+  }
+  return out;
+}
+
+class TeamConfig implements vscode.Disposable {
+  static readonly FILES = [".runway.json", path.join(".vscode", "runway.json")];
+
+  private data: TeamConfigFile = {};
+  private file: string | undefined;
+  private readonly watcher: vscode.FileSystemWatcher | undefined;
+  private readonly _onChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onChange.event;
+
+  constructor() {
+    const wsRoot = vscode.workspace.workspaceFolders?.[0];
+    if (wsRoot) {
+      this.watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(wsRoot, "{.runway.json,.vscode/runway.json}")
+      );
+      const reload = () => { this.load(); this._onChange.fire(); };
+      this.watcher.onDidChange(reload);
+      this.watcher.onDidCreate(reload);
+      this.watcher.onDidDelete(reload);
+    }
+    this.load();
+  }
+
+  /** Absolute path of the team config file in use, if one exists. */
+  get filePath(): string | undefined { return this.file; }
+
+  sources(): Source[] {
+    const root = this.root();
+    if (!root) return [];
+    return (this.data.sources ?? [])
+      .filter((s) => s && typeof s.path === "string" && typeof s.type === "string")
+      .map((s) => {
+        // .env files in the team config are workspace-relative; personal ones are relative to the source
+        const absolute = (file: string) => path.resolve(root, file);
+        return mapEnvFiles({
+          ...s,
+          path: resolveToWorkspace(path.resolve(root, s.path)),
+          profiles: s.profiles && Object.fromEntries(
+            Object.entries(s.profiles).map(([name, profile]) => [name, mapEnvFiles(profile, absolute)])
+          ),
+        }, absolute);
+      });
+  }
+
+  overrides(): Record<string, string> { return this.scriptMap(this.data.overrides); }
+  labels(): Record<string, string> { return this.scriptMap(this.data.labels); }
+
+  favorites(): Record<string, string> {
+    const fav: Record<string, string> = {};
+    for (const id of this.data.favorites ?? []) fav[id] = "1";
+    return this.scriptMap(fav);
+  }
+
+  /**
+   * Writes the given absolute-path setup to the team config file (the
+   * existing one, or `.runway.json` at the workspace root).  Sources keep
+   * only their type, path and scan options unless `includeEnv` is set, which
+   * adds their variables, .env files and profiles — interpreter and shell
+   * overrides are machine-specific and never written.  Entries that live
+   * outside the workspace are dropped; returns how many were skipped.
+   */
+  async save(setup: TeamConfigFile, includeEnv = false): Promise<{ file: string; skipped: number }> {
+    const root = this.root();
+    if (!root) throw new Error("Open a workspace folder first.");
+    let skipped = 0;
+    const relative = (p: string) => {
+      const rel = path.relative(root, p);
+      if (rel.startsWith("..") || path.isAbsolute(rel)) { skipped++; return undefined; }
+      return rel.split(path.sep).join("/");
+    };
+
+    const sources: Source[] = [];
+    for (const s of setup.sources ?? []) {
+      const rel = relative(s.path);
+      if (rel === undefined) continue;
+      const shared: Source = {
+        type: s.type, path: rel, recursive: s.recursive, maxDepth: s.maxDepth, include: s.include, exclude: s.exclude,
+      };
+      if (includeEnv) {
+        const envFile = (file: string) => relative(path.resolve(sourceDir(s), file));
+        Object.assign(shared, mapEnvFiles({ env: s.env, envFiles: s.envFiles }, envFile));
+        shared.profiles = s.profiles && Object.fromEntries(
+          Object.entries(s.profiles).map(([name, profile]) => [name, mapEnvFiles(profile, envFile)])
+        );
+      }
+      sources.push(shared);
+    }
+    const share = (id: string) => {
+      const shared = toSharedId(id, root);
+      if (shared === undefined) skipped++;
+      return shared;
+    };
+
+    const out: TeamConfigFile = {
+      sources,
+      overrides: mapKeys(setup.overrides ?? {}, share),
+      labels: mapKeys(setup.labels ?? {}, share),
+      favorites: (setup.favorites ?? []).flatMap((id) => share(id) ?? []),
+    };
+
+    const file = this.file ?? path.join(root, TeamConfig.FILES[0]);
+    await fs.promises.writeFile(file, JSON.stringify(out, null, 2) + "\n", "utf8");
+    this.load();
+    this._onChange.fire();
+    return { file, skipped };
+  }
+
+  dispose() {
+    this.watcher?.dispose();
+    this._onChange.dispose();
+  }
+
+  private root(): string | undefined {
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  }
+
+  private scriptMap(record: Record<string, string> | undefined): Record<string, string> {
+    const root = this.root();
+    if (!root || !record) return {};
+    return mapKeys(record, (id) => fromSharedId(id, root));
+  }
+
+  private load() {
+    this.data = {};
+    this.file = undefined;
+    const root = this.root();
+    if (!root) return;
+    for (const name of TeamConfig.FILES) {
+      const candidate = path.join(root, name);
+      if (!fs.existsSync(candidate)) continue;
+      this.file = candidate;
+      try {
+        const parsed = JSON.parse(fs.readFileSync(candidate, "utf8"));
+        if (parsed && typeof parsed === "object") this.data = parsed;
+      } catch (err) {
+        vscode.window.showWarningMessage(`Runway: could not parse ${name} — ${(err as Error).message}`);
+      }
+      return;
+    }
   }
 }
 
@@ -248,202 +600,876 @@ function detectPM(pkgDir: string): PM {
   return "npm";
 }
 
+function pmIcon(pm: PM): string {
+  return pm === "pnpm" ? "pnpm.svg"
+    : pm === "yarn" ? "yarn.svg"
+    : pm === "bun"  ? "bun.svg"
+    : "npm.svg";
+}
+
 // ---------------------------------------------------------------------------
-// Path display helper
+// Interpreter detection  (Python virtualenvs, pinned Node versions)
 // ---------------------------------------------------------------------------
 
-function displayPath(absPath: string): string {
-  const wsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  if (wsRoot) {
-    const rel = path.relative(wsRoot, absPath);
-    if (!rel.startsWith("..")) return rel;
+/** The interpreter chosen for a script, and why — shown in its tooltip. */
+interface Interpreter {
+  /** Python: replaces `python3`.  Node: prefixed to the command */
+  command: string;
+  label: string;
+}
+
+/** Per-source override that turns detection off. */
+const SYSTEM_INTERPRETER = "system";
+
+const onPathCache = new Map<string, boolean>();
+
+/** True when `bin` is an executable on PATH. */
+function onPath(bin: string): boolean {
+  let found = onPathCache.get(bin);
+  if (found === undefined) {
+    const exts = process.platform === "win32" ? (process.env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";") : [""];
+    found = (process.env.PATH ?? "").split(path.delimiter).some((dir) =>
+      dir && exts.some((ext) => fs.existsSync(path.join(dir, bin + ext)))
+    );
+    onPathCache.set(bin, found);
   }
-  return absPath;
+  return found;
 }
 
 /**
- * If `absPath` is a realpath that lives outside the workspace but has a
- * symlink inside it, return the in-workspace path instead.  Otherwise
- * return the path unchanged.  This keeps display labels and cwd rooted
- * in the workspace even when macOS / VS Code resolves symlinks.
+ * Calls `check` for `dir` and each parent up to the enclosing workspace
+ * folder (or the filesystem root), returning the first result.
  */
-function resolveToWorkspace(absPath: string): string {
-  const wsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  if (!wsRoot) return absPath;
-
-  // Already inside the workspace — nothing to do
-  const rel = path.relative(wsRoot, absPath);
-  if (!rel.startsWith("..")) return absPath;
+function findUp<T>(dir: string, check: (dir: string) => T | undefined): T | undefined {
+  const stop = workspaceFolderFor(dir)?.uri.fsPath;
+  for (let current = dir; ; current = path.dirname(current)) {
+    const found = check(current);
+    if (found !== undefined) return found;
+    if (current === stop || path.dirname(current) === current) return undefined;
+  }
+}
 
-  // Case 1: The workspace root itself is under a symlink so its realpath
-  // differs from the fsPath VS Code reports.
-  try {
-    const realWs = fs.realpathSync(wsRoot);
-    const relToRealWs = path.relative(realWs, absPath);
-    if (!relToRealWs.startsWith("..")) {
-      return path.join(wsRoot, relToRealWs);
+/**
+ * The nearest project environment for a Python script: a `.venv`/`venv`
+ * folder, else `uv run` next to a uv.lock, else `poetry run` next to a
+ * poetry.lock.  The closest directory wins.
+ */
+function detectPython(dir: string, kind: ShellKind): Interpreter | undefined {
+  const bin = process.platform === "win32" ? path.join("Scripts", "python.exe") : path.join("bin", "python");
+  return findUp(dir, (d) => {
+    for (const venv of [".venv", "venv"]) {
+      const python = path.join(d, venv, bin);
+      if (fs.existsSync(python)) return { command: commandLine(quoteArg(python, kind), kind), label: displayPath(python) };
     }
-  } catch { /* ignore */ }
+    if (fs.existsSync(path.join(d, "uv.lock")) && onPath("uv")) {
+      return { command: "uv run python", label: `uv run (${displayPath(path.join(d, "uv.lock"))})` };
+    }
+    if (fs.existsSync(path.join(d, "poetry.lock")) && onPath("poetry")) {
+      return { command: "poetry run python", label: `poetry run (${displayPath(path.join(d, "poetry.lock"))})` };
+    }
+    return undefined;
+  });
+}
 
-  // Case 2: A directory *inside* the workspace is a symlink whose real
-  // target is (a prefix of) absPath.  Scan top-level workspace entries.
-  try {
-    for (const entry of fs.readdirSync(wsRoot)) {
-      const entryPath = path.join(wsRoot, entry);
-      let stat: fs.Stats;
-      try { stat = fs.lstatSync(entryPath); } catch { continue; }
-      if (!stat.isSymbolicLink()) continue;
-      let realTarget: string;
-      try { realTarget = fs.realpathSync(entryPath); } catch { continue; }
-      const relToTarget = path.relative(realTarget, absPath);
-      if (!relToTarget.startsWith("..")) {
-        // absPath is under this symlink target — remap through the symlink
-        return path.join(entryPath, relToTarget);
-      }
+/** A user-chosen Python: an existing file is quoted, anything else (`conda run -n x python`) used as is. */
+function customPython(value: string, kind: ShellKind): Interpreter {
+  return { command: fs.existsSync(value) ? commandLine(quoteArg(value, kind), kind) : value, label: `${value} (source override)` };
+}
+
+/** The Node version pinned by the nearest .nvmrc, .node-version or package.json `volta` field. */
+function nodePin(dir: string): { version: string; from: string; volta: boolean } | undefined {
+  return findUp(dir, (d) => {
+    for (const name of [".nvmrc", ".node-version"]) {
+      try {
+        const version = fs.readFileSync(path.join(d, name), "utf8").split(/\r?\n/)[0].trim();
+        if (version) return { version, from: displayPath(path.join(d, name)), volta: false };
+      } catch { /* not here */ }
     }
-  } catch { /* ignore */ }
+    try {
+      const version = JSON.parse(fs.readFileSync(path.join(d, "package.json"), "utf8")).volta?.node;
+      if (typeof version === "string") return { version, from: displayPath(path.join(d, "package.json")), volta: true };
+    } catch { /* not here */ }
+    return undefined;
+  });
+}
 
-  return absPath;
+function nvmScript(): string | undefined {
+  if (process.platform === "win32") return undefined;
+  const script = path.join(process.env.NVM_DIR || path.join(os.homedir(), ".nvm"), "nvm.sh");
+  return fs.existsSync(script) ? script : undefined;
+}
+
+/**
+ * The prefix that runs a command with `version` of Node, through whichever
+ * version manager is installed.  Volta is preferred for its own pins, fnm
+ * then nvm for .nvmrc-style files.  The prefix becomes part of the default
+ * command, so it also reaches task definitions and the system terminal.
+ */
+function nodeRunner(version: string, preferVolta: boolean, kind: ShellKind): { prefix: string; manager: string } | undefined {
+  const v = quoteArg(version, kind);
+  const volta = onPath("volta") ? { prefix: `volta run --node ${v} `, manager: "volta" } : undefined;
+  if (preferVolta && volta) return volta;
+  if (onPath("fnm")) return { prefix: `fnm exec --using=${v} `, manager: "fnm" };
+  // nvm is a POSIX shell function
+  const nvm = kind === "posix" ? nvmScript() : undefined;
+  if (nvm) return { prefix: `. ${quoteArg(nvm, kind)} && nvm exec --silent ${v} `, manager: "nvm" };
+  return volta;
+}
+
+/**
+ * Node for scripts in `dir`: the source override if set, else the nearest
+ * pin.  Without a version manager the pin is only reported.
+ */
+function detectNode(dir: string, override: string | undefined, kind: ShellKind): Interpreter | undefined {
+  const pin = override
+    ? { version: override, from: "source override", volta: false }
+    : nodePin(dir);
+  if (!pin) return undefined;
+  const runner = nodeRunner(pin.version, pin.volta, kind);
+  return runner
+    ? { command: runner.prefix, label: `Node ${pin.version} via ${runner.manager} (${pin.from})` }
+    : { command: "", label: `Node ${pin.version} pinned by ${pin.from}, but no version manager (volta, fnm, nvm) was found` };
 }
 
 // ---------------------------------------------------------------------------
-// Makefile target parser
+// Monorepo workspace discovery
 // ---------------------------------------------------------------------------
 
-function parseMakeTargets(filePath: string): string[] {
+/** Directories never descended into while discovering packages. */
+const IGNORED_DIRS = new Set(["node_modules", ".git"]);
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a glob (`*`, `**`, `?`, `{a,b}`) into an anchored RegExp that is
+ * matched against forward-slash relative paths.
+ */
+function globToRegExp(glob: string): RegExp {
+  const g = glob.replace(/^\.\//, "").replace(/\/+$/, "");
+  let re = "";
+  for (let i = 0; i < g.length; i++) {
+    const c = g[i];
+    if (c === "*" && g[i + 1] === "*") {
+      i++;
+      // "**/" matches zero or more whole directories
+      if (g[i + 1] === "/") { i++; re += "(?:.*/)?"; } else re += ".*";
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{" && g.indexOf("}", i) > i) {
+      const end = g.indexOf("}", i);
+      re += `(?:${g.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Reads the `packages:` list of a pnpm-workspace.yaml. */
+function parsePnpmWorkspace(content: string): string[] {
+  const globs: string[] = [];
+  const unquote = (v: string) => v.trim().replace(/^['"]|['"]$/g, "");
+  let inPackages = false;
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "");
+    const header = line.match(/^packages\s*:\s*(.*)$/);
+    if (header) {
+      const inline = header[1].match(/^\[(.*)\]$/);
+      if (inline) globs.push(...inline[1].split(",").map(unquote).filter(Boolean));
+      inPackages = !inline;
+      continue;
+    }
+    if (!inPackages) continue;
+    const item = line.match(/^\s*-\s*(.+)$/);
+    if (item) globs.push(unquote(item[1]));
+    else if (/^\S/.test(line)) inPackages = false;
+  }
+  return globs;
+}
+
+/** Workspace package globs from pnpm-workspace.yaml or the root package.json `workspaces` field. */
+function readWorkspaceGlobs(rootDir: string): string[] {
   try {
-    const content = fs.readFileSync(filePath, "utf8");
-    const seen = new Set<string>();
-    const targets: string[] = [];
-    for (const m of content.matchAll(/^([a-zA-Z0-9][a-zA-Z0-9_.-]*)\s*:/gm)) {
-      if (!seen.has(m[1])) { seen.add(m[1]); targets.push(m[1]); }
+    return parsePnpmWorkspace(fs.readFileSync(path.join(rootDir, "pnpm-workspace.yaml"), "utf8"));
+  } catch { /* not a pnpm workspace */ }
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(rootDir, "package.json"), "utf8"));
+    const ws = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+    if (Array.isArray(ws)) return ws.filter((g: unknown): g is string => typeof g === "string");
+  } catch { /* ignore */ }
+  return [];
+}
+
+/** Expands a workspace's globs into package.json paths, honouring `!` exclusions. */
+function discoverWorkspacePackages(rootDir: string): string[] {
+  const globs = readWorkspaceGlobs(rootDir);
+  const include = globs.filter((g) => !g.startsWith("!")).map(globToRegExp);
+  const exclude = globs.filter((g) => g.startsWith("!")).map((g) => globToRegExp(g.slice(1)));
+  const maxDepth = globs.some((g) => g.includes("**"))
+    ? 8
+    : Math.max(1, ...globs.map((g) => g.replace(/^!?\.?\//, "").split("/").length));
+
+  const found: string[] = [];
+  const walk = (dir: string, rel: string, depth: number) => {
+    if (depth > maxDepth) return;
+    let entries: string[];
+    try { entries = fs.readdirSync(dir); } catch { return; }
+    for (const name of entries) {
+      if (IGNORED_DIRS.has(name)) continue;
+      const abs = path.join(dir, name);
+      try { if (!fs.statSync(abs).isDirectory()) continue; } catch { continue; }
+      const childRel = rel ? `${rel}/${name}` : name;
+      const pkgJson = path.join(abs, "package.json");
+      if (include.some((r) => r.test(childRel)) && !exclude.some((r) => r.test(childRel)) && fs.existsSync(pkgJson)) {
+        found.push(pkgJson);
+      }
+      walk(abs, childRel, depth + 1);
     }
-    return targets;
-  } catch { return []; }
+  };
+  walk(rootDir, "", 1);
+  return found.sort();
 }
 
 // ---------------------------------------------------------------------------
-// Script name → icon mapping
+// Directory scanning
 // ---------------------------------------------------------------------------
 
-type ScriptIcon = vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri };
+/** Skipped by directory scans unless a source sets its own `exclude` list. */
+const DEFAULT_SCAN_EXCLUDES = [...IGNORED_DIRS, "venv"];
 
 /**
- * Returns an icon for well-known npm script names, or undefined for
- * anything that doesn't match a recognisable pattern.
- * Matches exact names or names starting with the keyword followed by
- * a separator (`:`, `-`, `_`), e.g. "build:watch" → package icon.
+ * A glob without a slash matches a file or folder name at any depth
+ * (`*.test.sh`, `venv`); one with a slash matches the path relative to
+ * the source (`release/**`).
  */
-function iconForScript(name: string, extensionUri: vscode.Uri): ScriptIcon | undefined {
-  const n = name.toLowerCase();
-  const sw = (...prefixes: string[]) =>
-    prefixes.some((p) => n === p || n.startsWith(p + ":") || n.startsWith(p + "-") || n.startsWith(p + "_"));
+function matchesScanGlob(relPath: string, glob: string): boolean {
+  const target = glob.replace(/^\.\//, "").includes("/") ? relPath : path.posix.basename(relPath);
+  return globToRegExp(glob).test(target);
+}
 
-  const emoji = (file: string) => {
-    const uri = vscode.Uri.joinPath(extensionUri, "images", file);
-    return { light: uri, dark: uri };
+/**
+ * Files of a directory source as forward-slash paths relative to it.
+ * Only the top level unless the source is recursive; symlinked folders
+ * are followed once.
+ */
+function scanDirectory(src: Source): string[] {
+  const exclude = src.exclude ?? DEFAULT_SCAN_EXCLUDES;
+  const include = src.include ?? [];
+  const maxDepth = src.recursive ? src.maxDepth ?? Infinity : 0;
+  const visited = new Set<string>();
+  const found: string[] = [];
+
+  const walk = (dir: string, rel: string, depth: number) => {
+    try {
+      const real = fs.realpathSync(dir);
+      if (visited.has(real)) return;
+      visited.add(real);
+    } catch { return; }
+    let entries: fs.Dirent[];
+    try { entries = fs.readdirSync(dir, { withFileTypes: true }); } catch { return; }
+    for (const entry of entries) {
+      const relPath = rel ? `${rel}/${entry.name}` : entry.name;
+      if (exclude.some((g) => matchesScanGlob(relPath, g))) continue;
+      const abs = path.join(dir, entry.name);
+      let isDir = entry.isDirectory();
+      if (entry.isSymbolicLink()) {
+        try { isDir = fs.statSync(abs).isDirectory(); } catch { continue; }
+      }
+      if (isDir) {
+        if (depth < maxDepth) walk(abs, relPath, depth + 1);
+        continue;
+      }
+      if (include.length && !include.some((g) => matchesScanGlob(relPath, g))) continue;
+      found.push(relPath);
+    }
   };
 
-  if (sw("dev", "start", "serve", "server"))                              return emoji("emoji-lightning.svg");
-  if (sw("build", "compile", "bundle"))                                   return emoji("emoji-package.svg");
-  if (sw("test", "spec", "e2e"))                                          return emoji("emoji-test-tube.svg");
-  if (sw("lint", "eslint", "tslint", "stylelint", "format", "fmt", "prettier")) return emoji("emoji-nail-polish.svg");
-  if (sw("typecheck", "type-check", "types", "tsc"))                      return emoji("emoji-magnifier.svg");
-  if (sw("clean", "reset"))                                               return emoji("emoji-broom.svg");
-  if (sw("deploy", "release", "publish"))                                 return emoji("emoji-rocket.svg");
-  if (sw("watch"))                                                        return emoji("emoji-eyes.svg");
-  if (sw("preview"))                                                      return emoji("emoji-eyes.svg");
-  if (sw("migrate", "migration", "seed", "db"))                           return emoji("emoji-cabinet.svg");
-  if (sw("generate", "gen", "scaffold"))                                  return emoji("emoji-sparkles.svg");
-  if (sw("doc", "docs", "storybook"))                                     return emoji("emoji-books.svg");
-  if (sw("install", "setup", "bootstrap"))                                return emoji("emoji-inbox.svg");
-  return undefined;
+  walk(src.path, "", 0);
+  return found.sort();
 }
 
 // ---------------------------------------------------------------------------
-// Tree data types
+// Path display helper
 // ---------------------------------------------------------------------------
 
-type ScriptKind =
-  | "packageGroup"
-  | "npmScript"
-  | "makeGroup"
-  | "makeTarget"
-  | "fileCategory"
-  | "fileScript"
-  | "moreScripts";
+function isInside(root: string, absPath: string): boolean {
+  const rel = path.relative(root, absPath);
+  return !rel.startsWith("..") && !path.isAbsolute(rel);
+}
 
-interface Script {
-  kind: ScriptKind;
-  label: string;
-  /** stable key for overrides/labels */
-  id?: string;
-  defaultCommand?: string;
-  cwd?: string;
-  /** absolute path to the source file */
-  filePath?: string;
-  /** SVG icon filename for category/group headers */
-  iconFile?: string;
-  /** absolute path of the source that added this item (for removal) */
-  sourcePath?: string;
-  /** detected package manager, for tooltips */
-  pm?: PM;
-  /** category kind, for fileCategory routing */
-  categoryKind?: string;
-  /** secondary descriptive text shown in the row */
-  description?: string;
-  /** whether this script is a favorite */
-  isFavorite?: boolean;
-  /** child items for moreScripts groups */
-  children?: Script[];
+/** The workspace folder containing `absPath` (the innermost, if folders nest). */
+function workspaceFolderFor(absPath: string): vscode.WorkspaceFolder | undefined {
+  let best: vscode.WorkspaceFolder | undefined;
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    if (!isInside(folder.uri.fsPath, absPath)) continue;
+    if (!best || folder.uri.fsPath.length > best.uri.fsPath.length) best = folder;
+  }
+  return best;
 }
 
-// ---------------------------------------------------------------------------
-// Tree item
-// ---------------------------------------------------------------------------
+/** Where open dialogs start: the active editor's workspace folder, else the first one. */
+function defaultFolderUri(): vscode.Uri | undefined {
+  const active = vscode.window.activeTextEditor?.document.uri;
+  return (active && vscode.workspace.getWorkspaceFolder(active)?.uri) ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+}
 
-class ScriptItem extends vscode.TreeItem {
-  constructor(
-    public readonly script: Script,
-    private readonly extensionUri: vscode.Uri,
-    overrides: ScriptStore,
-    labels: ScriptStore,
-    runningTerminals: Set<string>
-  ) {
-    const collapsible =
-      script.kind === "moreScripts"
-        ? vscode.TreeItemCollapsibleState.Collapsed
-        : (script.kind === "packageGroup" ||
-           script.kind === "makeGroup" ||
-           script.kind === "fileCategory")
-          ? vscode.TreeItemCollapsibleState.Expanded
-          : vscode.TreeItemCollapsibleState.None;
+/**
+ * Workspace-relative path for display.  In a multi-root workspace the
+ * owning folder's name is prefixed, e.g. `backend/scripts/seed.sh`.
+ */
+function displayPath(absPath: string): string {
+  const folder = workspaceFolderFor(absPath);
+  if (!folder) return absPath;
+  const rel = path.relative(folder.uri.fsPath, absPath);
+  if ((vscode.workspace.workspaceFolders?.length ?? 0) < 2) return rel;
+  return rel ? `${folder.name}/${rel.split(path.sep).join("/")}` : folder.name;
+}
 
-    super(script.label, collapsible);
+/**
+ * If `absPath` is a realpath that lives outside the workspace but has a
+ * symlink inside one of its folders, return the in-workspace path instead.
+ * Otherwise return the path unchanged.  This keeps display labels and cwd
+ * rooted in the workspace even when macOS / VS Code resolves symlinks.
+ */
+function resolveToWorkspace(absPath: string): string {
+  const roots = (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath);
 
-    const override = script.id ? overrides.get(script.id) : undefined;
-    const customLabel = script.id ? labels.get(script.id) : undefined;
-    const effectiveCommand = override ?? script.defaultCommand;
-    const isOverridden = override !== undefined;
-    const isRunning = script.id !== undefined && runningTerminals.has(script.label);
+  // Already inside the workspace — nothing to do
+  if (roots.some((root) => isInside(root, absPath))) return absPath;
 
-    if (customLabel) {
-      this.label = customLabel;
-      this.description = script.label;
+  for (const wsRoot of roots) {
+    // Case 1: The workspace root itself is under a symlink so its realpath
+    // differs from the fsPath VS Code reports.
+    try {
+      const realWs = fs.realpathSync(wsRoot);
+      if (isInside(realWs, absPath)) {
+        return path.join(wsRoot, path.relative(realWs, absPath));
+      }
+    } catch { /* ignore */ }
+  }
+
+  for (const wsRoot of roots) {
+    // Case 2: A directory *inside* the workspace is a symlink whose real
+    // target is (a prefix of) absPath.  Scan top-level workspace entries.
+    try {
+      for (const entry of fs.readdirSync(wsRoot)) {
+        const entryPath = path.join(wsRoot, entry);
+        let stat: fs.Stats;
+        try { stat = fs.lstatSync(entryPath); } catch { continue; }
+        if (!stat.isSymbolicLink()) continue;
+        let realTarget: string;
+        try { realTarget = fs.realpathSync(entryPath); } catch { continue; }
+        if (isInside(realTarget, absPath)) {
+          // absPath is under this symlink target — remap through the symlink
+          return path.join(entryPath, path.relative(realTarget, absPath));
+        }
+      }
+    } catch { /* ignore */ }
+  }
+
+  return absPath;
+}
+
+// ---------------------------------------------------------------------------
+// Makefile target parser
+// ---------------------------------------------------------------------------
+
+/** File names make looks for by default, in make's own lookup order. */
+const MAKEFILE_NAMES = ["GNUmakefile", "makefile", "Makefile"];
+
+function isMakefile(filePath: string): boolean {
+  return MAKEFILE_NAMES.includes(path.basename(filePath)) || path.extname(filePath) === ".mk";
+}
+
+interface MakeTarget {
+  name: string;
+  /** from the `target: ## description` help convention */
+  description?: string;
+  /** the makefile (possibly an included one) that defines the target */
+  file: string;
+  /** zero-based line of the rule */
+  line: number;
+  phony: boolean;
+}
+
+/**
+ * Lists the runnable targets of a makefile and everything it `include`s.
+ *
+ * Skips variable assignments, `define` blocks, special targets (`.PHONY`,
+ * `.DEFAULT`, …), pattern rules (`%.o: %.c`), targets starting with `_`
+ * (the usual "internal helper" convention) and — when the target is not
+ * declared `.PHONY` and has no `##` description — targets that look like
+ * files (`build/app`, `main.o`).
+ *
+ * Like make, relative `include` paths resolve against the directory make
+ * runs in (`cwd`, the makefile's own directory by default) — not against the
+ * file doing the including.
+ */
+function parseMakeTargets(filePath: string, cwd = path.dirname(filePath)): MakeTarget[] {
+  const found = new Map<string, MakeTarget>();
+  const phony = new Set<string>();
+  const visited = new Set<string>();
+
+  const parse = (file: string) => {
+    if (visited.has(file)) return;
+    visited.add(file);
+    let content: string;
+    try { content = fs.readFileSync(file, "utf8"); } catch { return; }
+
+    const lines = content.split(/\r?\n/);
+    let pendingHelp: string | undefined;
+    let inDefine = false;
+    for (let i = 0; i < lines.length; i++) {
+      const start = i;
+      let line = lines[i];
+      // Join backslash continuations (the rule keeps its first line number)
+      while (line.endsWith("\\") && i + 1 < lines.length) line = line.slice(0, -1) + " " + lines[++i];
+
+      if (inDefine) {
+        if (/^\s*endef\b/.test(line)) inDefine = false;
+        continue;
+      }
+      if (/^\s*define\s/.test(line)) { inDefine = true; continue; }
+      if (line.startsWith("\t")) continue; // recipe line
+
+      // A `## text` line directly above a rule also documents it
+      const helpLine = line.match(/^##\s?(.*)$/);
+      if (helpLine) { pendingHelp = helpLine[1].trim() || undefined; continue; }
+      const help = pendingHelp;
+      pendingHelp = undefined;
+
+      const include = line.match(/^\s*-?(?:include|sinclude)\s+(.+)$/);
+      if (include) {
+        for (const name of include[1].split("#")[0].trim().split(/\s+/)) {
+          if (name.includes("$")) continue; // can't expand variables
+          parse(path.resolve(cwd, name));
+        }
+        continue;
+      }
+
+      // Rule: `targets: prerequisites ## description` — but not `VAR := x`,
+      // `VAR ::= x` or a target-specific `target: VAR = x`
+      const rule = line.match(/^([^\s:#=][^:#=]*?)\s*::?(?![:=])(.*)$/);
+      if (!rule) continue;
+      const [, names, rest] = rule;
+      const [prereqs, ...comment] = rest.split("##");
+      if (/^\s*[A-Za-z_][\w.]*\s*[:+?!]?=/.test(prereqs)) continue;
+
+      if (names.trim() === ".PHONY") {
+        for (const name of prereqs.split("#")[0].trim().split(/\s+/)) if (name) phony.add(name);
+        continue;
+      }
+
+      const description = comment.length ? comment.join("##").trim() || undefined : help;
+      for (const name of names.trim().split(/\s+/)) {
+        if (!name || name.startsWith(".") || name.startsWith("_") || name.includes("%") || name.includes("$")) continue;
+        const existing = found.get(name);
+        if (existing) {
+          existing.description ??= description;
+          continue;
+        }
+        found.set(name, { name, description, file, line: start, phony: false });
+      }
+    }
+  };
+
+  parse(filePath);
+
+  const looksLikeFile = (name: string) => name.includes("/") || /\.[A-Za-z0-9]+$/.test(name);
+  const targets: MakeTarget[] = [];
+  for (const target of found.values()) {
+    target.phony = phony.has(target.name);
+    if (!target.phony && !target.description && looksLikeFile(target.name)) continue;
+    targets.push(target);
+  }
+  return targets;
+}
+
+// ---------------------------------------------------------------------------
+// Task runners  (justfile, Taskfile.yml, deno.json, composer.json)
+// ---------------------------------------------------------------------------
+
+type TaskSourceType = "justfile" | "taskfile" | "deno" | "composer";
+
+interface TaskDef {
+  name: string;
+  description?: string;
+  /** zero-based line of the task's definition */
+  line: number;
+}
+
+interface TaskRunner {
+  type: TaskSourceType;
+  label: string;
+  /** file names recognised when adding a task file */
+  fileNames: string[];
+  iconFile: string;
+  makeCommand: (task: string) => string;
+  parse: (content: string) => TaskDef[];
+}
+
+const TASK_RUNNERS: TaskRunner[] = [
+  {
+    type: "justfile", label: "just",
+    fileNames: ["justfile", "Justfile", ".justfile"], iconFile: "just.svg",
+    makeCommand: (task) => `just ${task}`,
+    parse: parseJustfile,
+  },
+  {
+    type: "taskfile", label: "task",
+    fileNames: ["Taskfile.yml", "Taskfile.yaml", "taskfile.yml", "taskfile.yaml",
+      "Taskfile.dist.yml", "Taskfile.dist.yaml", "taskfile.dist.yml", "taskfile.dist.yaml"],
+    iconFile: "task.svg",
+    makeCommand: (task) => `task ${task}`,
+    parse: parseTaskfile,
+  },
+  {
+    type: "deno", label: "deno",
+    fileNames: ["deno.json", "deno.jsonc"], iconFile: "deno.svg",
+    makeCommand: (task) => `deno task ${task}`,
+    parse: parseDenoTasks,
+  },
+  {
+    type: "composer", label: "composer",
+    fileNames: ["composer.json"], iconFile: "composer.svg",
+    makeCommand: (task) => `composer run-script ${task}`,
+    parse: parseComposerScripts,
+  },
+];
+
+function taskRunnerFor(type: SourceType): TaskRunner | undefined {
+  return TASK_RUNNERS.find((r) => r.type === type);
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 0;
+  for (let i = 0; i < index; i++) if (content.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+/**
+ * justfile recipes.  A `# comment` (or `[doc("...")]` attribute) directly
+ * above a recipe is its description; `[private]` and `_name` recipes are hidden.
+ */
+function parseJustfile(content: string): TaskDef[] {
+  const tasks: TaskDef[] = [];
+  let doc: string | undefined;
+  let isPrivate = false;
+  content.split(/\r?\n/).forEach((line, i) => {
+    const comment = line.match(/^#(?!!)\s?(.*)$/);
+    if (comment) { doc = comment[1].trim() || undefined; return; }
+    const attr = line.match(/^\[(.*)\]\s*$/);
+    if (attr) {
+      if (/\bprivate\b/.test(attr[1])) isPrivate = true;
+      const docAttr = attr[1].match(/\bdoc\(\s*(["'])(.*?)\1\s*\)/);
+      if (docAttr) doc = docAttr[2];
+      return;
+    }
+    // `name params...:` at column 0, but not `name := value` assignments,
+    // `alias x := y` or `set shell := [...]`
+    const recipe = line.match(/^@?([A-Za-z_][\w-]*)(?:\s+[^:]*)?:(?!=)/);
+    if (recipe && !isPrivate && !recipe[1].startsWith("_")) {
+      tasks.push({ name: recipe[1], description: doc, line: i });
+    }
+    doc = undefined;
+    isPrivate = false;
+  });
+  return tasks;
+}
+
+/** Taskfile.yml tasks — keys of the top-level `tasks:` map, with their `desc`. */
+function parseTaskfile(content: string): TaskDef[] {
+  const tasks: TaskDef[] = [];
+  const unquote = (v: string) => v.trim().replace(/^(['"])(.*)\1$/, "$2");
+  let inTasks = false;
+  let taskIndent: number | undefined;
+  let current: (TaskDef & { internal?: boolean }) | undefined;
+  const all: (TaskDef & { internal?: boolean })[] = [];
+  content.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/\s+#.*$/, "");
+    if (!line.trim() || line.trim().startsWith("#")) return;
+    const indent = line.length - line.trimStart().length;
+    if (indent === 0) {
+      inTasks = /^tasks\s*:\s*$/.test(line);
+      taskIndent = undefined;
+      current = undefined;
+      return;
+    }
+    if (!inTasks) return;
+    taskIndent ??= indent;
+    const key = line.match(/^\s*(["']?)([^\s"'#][^"'#]*?)\1\s*:(?:\s+(.*))?$/);
+    if (indent === taskIndent) {
+      current = key ? { name: key[2], line: i } : undefined;
+      if (current) all.push(current);
+    } else if (current && key) {
+      if (key[2] === "desc" && key[3]) current.description = unquote(key[3]);
+      if (key[2] === "internal" && key[3]?.trim() === "true") current.internal = true;
+    }
+  });
+  for (const { internal, ...task } of all) if (!internal) tasks.push(task);
+  return tasks;
+}
+
+/** Removes comments and trailing commas so JSONC can go through JSON.parse. */
+function stripJsonComments(content: string): string {
+  let out = "";
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (c === '"') {
+      const start = i;
+      for (i++; i < content.length && content[i] !== '"'; i++) if (content[i] === "\\") i++;
+      out += content.slice(start, i + 1);
+    } else if (c === "/" && content[i + 1] === "/") {
+      while (i < content.length && content[i] !== "\n") i++;
+      out += "\n";
+    } else if (c === "/" && content[i + 1] === "*") {
+      const end = content.indexOf("*/", i + 2);
+      // keep newlines so line numbers still line up
+      out += content.slice(i, end < 0 ? content.length : end + 2).replace(/[^\n]/g, " ");
+      i = end < 0 ? content.length : end + 1;
+    } else {
+      out += c;
+    }
+  }
+  return out.replace(/,(\s*[}\]])/g, "$1");
+}
+
+/** Finds the line of `"name":` inside the object stored under `"section":`. */
+function jsonKeyLine(content: string, section: string, name: string): number {
+  const sectionMatch = new RegExp(`"${escapeRegExp(section)}"\\s*:`).exec(content);
+  const from = sectionMatch?.index ?? 0;
+  const keyMatch = new RegExp(`"${escapeRegExp(name)}"\\s*:`).exec(content.slice(from));
+  return keyMatch ? lineAt(content, from + keyMatch.index) : 0;
+}
+
+/** deno.json(c) `tasks` — a command string or `{ command, description }`. */
+function parseDenoTasks(content: string): TaskDef[] {
+  const json = JSON.parse(stripJsonComments(content));
+  return Object.entries<unknown>(json.tasks ?? {}).map(([name, task]) => ({
+    name,
+    description: typeof task === "string"
+      ? task
+      : (task as { description?: string; command?: string })?.description
+        ?? (task as { command?: string })?.command,
+    line: jsonKeyLine(content, "tasks", name),
+  }));
+}
+
+/** composer.json `scripts`, described by `scripts-descriptions` or the command itself. */
+function parseComposerScripts(content: string): TaskDef[] {
+  const json = JSON.parse(content);
+  const descriptions: Record<string, string> = json["scripts-descriptions"] ?? {};
+  return Object.entries<string | string[]>(json.scripts ?? {}).map(([name, cmd]) => ({
+    name,
+    description: descriptions[name] ?? (Array.isArray(cmd) ? cmd.join(" && ") : cmd),
+    line: jsonKeyLine(content, "scripts", name),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Script name → icon mapping
+// ---------------------------------------------------------------------------
+
+type ScriptIcon = vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri };
+
+/**
+ * Returns an icon for well-known npm script names, or undefined for
+ * anything that doesn't match a recognisable pattern.
+ * Matches exact names or names starting with the keyword followed by
+ * a separator (`:`, `-`, `_`), e.g. "build:watch" → package icon.
+ */
+function iconForScript(name: string, extensionUri: vscode.Uri): ScriptIcon | undefined {
+  const n = name.toLowerCase();
+  const sw = (...prefixes: string[]) =>
+    prefixes.some((p) => n === p || n.startsWith(p + ":") || n.startsWith(p + "-") || n.startsWith(p + "_"));
+
+  const emoji = (file: string) => {
+    const uri = vscode.Uri.joinPath(extensionUri, "images", file);
+    return { light: uri, dark: uri };
+  };
+
+  if (sw("dev", "start", "serve", "server"))                              return emoji("emoji-lightning.svg");
+  if (sw("build", "compile", "bundle"))                                   return emoji("emoji-package.svg");
+  if (sw("test", "spec", "e2e"))                                          return emoji("emoji-test-tube.svg");
+  if (sw("lint", "eslint", "tslint", "stylelint", "format", "fmt", "prettier")) return emoji("emoji-nail-polish.svg");
+  if (sw("typecheck", "type-check", "types", "tsc"))                      return emoji("emoji-magnifier.svg");
+  if (sw("clean", "reset"))                                               return emoji("emoji-broom.svg");
+  if (sw("deploy", "release", "publish"))                                 return emoji("emoji-rocket.svg");
+  if (sw("watch"))                                                        return emoji("emoji-eyes.svg");
+  if (sw("preview"))                                                      return emoji("emoji-eyes.svg");
+  if (sw("migrate", "migration", "seed", "db"))                           return emoji("emoji-cabinet.svg");
+  if (sw("generate", "gen", "scaffold"))                                  return emoji("emoji-sparkles.svg");
+  if (sw("doc", "docs", "storybook"))                                     return emoji("emoji-books.svg");
+  if (sw("install", "setup", "bootstrap"))                                return emoji("emoji-inbox.svg");
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Tree data types
+// ---------------------------------------------------------------------------
+
+type ScriptKind =
+  | "workspaceFolder"
+  | "workspaceRoot"
+  | "packageGroup"
+  | "npmScript"
+  | "taskGroup"
+  | "task"
+  | "makeGroup"
+  | "makeTarget"
+  | "fileCategory"
+  | "folder"
+  | "fileScript"
+  | "moreScripts"
+  | "argPreset"
+  | "compound"
+  | "compoundStep"
+  | "recentRuns"
+  | "runRecord";
+
+interface Script {
+  kind: ScriptKind;
+  label: string;
+  /** stable key for overrides/labels */
+  id?: string;
+  /** owning group's label, used to disambiguate terminal names */
+  group?: string;
+  defaultCommand?: string;
+  cwd?: string;
+  /** absolute path to the source file */
+  filePath?: string;
+  /** zero-based line in filePath where the script is defined, for Open Source File */
+  line?: number;
+  /** SVG icon filename for category/group headers */
+  iconFile?: string;
+  /** codicon id for rows that don't use an SVG icon */
+  codicon?: string;
+  /** absolute path of the source that added this item (for removal and env lookup) */
+  sourcePath?: string;
+  /** detected package manager, for tooltips */
+  pm?: PM;
+  /** the detected (or overridden) interpreter, for tooltips */
+  interpreter?: string;
+  /** task runner of a taskGroup */
+  runner?: TaskSourceType;
+  /** category kind, for fileCategory routing */
+  categoryKind?: string;
+  /**
+   * workspace folder path a workspaceFolder row (and the categories under
+   * it) is scoped to; "" for sources outside every folder
+   */
+  folder?: string;
+  /** secondary descriptive text shown in the row */
+  description?: string;
+  /** whether this script is a favorite */
+  isFavorite?: boolean;
+  /** whether this favorite has its own status bar button */
+  pinned?: boolean;
+  /** active environment profile, shown on group headers */
+  profile?: string;
+  /** child items for moreScripts groups and argument preset rows */
+  children?: Script[];
+  /** extra arguments appended when an argPreset row runs its parent */
+  args?: string;
+  /** the script an argPreset row belongs to */
+  parent?: Script;
+  /** running state for items RunManager doesn't track (compounds) */
+  running?: boolean;
+  /** most recent run of this script, for the result badge and tooltip */
+  lastRun?: RunRecord;
+  /** files whose changes re-run this script, when watch mode is on */
+  watch?: WatchSpec;
+  /** address the running script serves on, detected from its output */
+  server?: DetectedServer;
+  /** dependencies this script is waiting for before it starts */
+  waitingFor?: string;
+  /** the history entry a runRecord row shows */
+  record?: RunRecord;
+}
+
+// ---------------------------------------------------------------------------
+// Tree item
+// ---------------------------------------------------------------------------
+
+class ScriptItem extends vscode.TreeItem {
+  constructor(
+    public readonly script: Script,
+    private readonly extensionUri: vscode.Uri,
+    overrides: ScriptStore,
+    labels: ScriptStore,
+    runs: RunManager
+  ) {
+    const collapsible =
+      script.children?.length || script.kind === "compound" || script.kind === "recentRuns"
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : (script.kind === "workspaceFolder" ||
+           script.kind === "workspaceRoot" ||
+           script.kind === "packageGroup" ||
+           script.kind === "taskGroup" ||
+           script.kind === "makeGroup" ||
+           script.kind === "fileCategory")
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.None;
+
+    super(script.label, collapsible);
+
+    const override = script.id ? overrides.get(script.id) : undefined;
+    const customLabel = script.id ? labels.get(script.id) : undefined;
+    const effectiveCommand = override ?? script.defaultCommand;
+    const isOverridden = override !== undefined;
+    const isRunning = script.id !== undefined && runs.isRunning(script.id);
+    const instances = script.id !== undefined ? runs.runningCount(script.id) : 0;
+    const runningText = instances > 1
+      ? `Running (${instances} instances) — double-click to stop`
+      : "Running — double-click to stop";
+
+    if (customLabel) {
+      this.label = customLabel;
+      this.description = script.label;
     }
 
     switch (script.kind) {
+      case "workspaceRoot":
+        this.contextValue = "workspaceRoot";
+        this.iconPath = this.svgIcon(script.iconFile ?? "npm.svg");
+        this.description = script.profile ? `${script.description} · ${script.profile}` : script.description;
+        this.tooltip = `${script.pm ?? "npm"} workspace • ${script.cwd}`;
+        break;
+
       case "packageGroup":
-        this.contextValue = "packageGroup";
+        // Packages discovered inside a workspace can't be removed on their own
+        this.contextValue = script.sourcePath === script.filePath ? "packageGroup" : "packageGroup-member";
         this.iconPath = this.svgIcon(script.iconFile ?? "npm.svg");
-        this.description = script.pm ?? "npm";
+        this.description = script.profile ? `${script.pm ?? "npm"} · ${script.profile}` : script.pm ?? "npm";
         this.tooltip = `${script.pm ?? "npm"} • ${script.filePath}`;
         break;
 
+      case "workspaceFolder":
+        this.contextValue = "workspaceFolder";
+        this.iconPath = new vscode.ThemeIcon("root-folder");
+        this.tooltip = script.filePath;
+        break;
+
+      case "taskGroup": {
+        const runner = taskRunnerFor(script.runner!)!;
+        this.contextValue = "taskGroup";
+        this.iconPath = this.svgIcon(runner.iconFile);
+        this.description = script.profile ? `${runner.label} · ${script.profile}` : runner.label;
+        this.tooltip = `${runner.label} • ${script.filePath}`;
+        break;
+      }
+
       case "makeGroup":
         this.contextValue = "makeGroup";
         this.iconPath = this.svgIcon("makefile.svg");
-        this.description = displayPath(script.filePath!);
+        this.description = script.profile
+          ? `${displayPath(script.filePath!)} · ${script.profile}`
+          : displayPath(script.filePath!);
         this.tooltip = script.filePath;
         break;
 
@@ -452,14 +1478,68 @@ class ScriptItem extends vscode.TreeItem {
         this.iconPath = this.svgIcon(script.iconFile!);
         break;
 
+      case "folder":
+        this.contextValue = "folder";
+        this.iconPath = vscode.ThemeIcon.Folder;
+        this.resourceUri = vscode.Uri.file(script.filePath!);
+        this.tooltip = script.filePath;
+        break;
+
       case "moreScripts":
         this.contextValue = "moreScripts";
         this.iconPath = new vscode.ThemeIcon("ellipsis");
         this.tooltip = "Unfavorited scripts";
         break;
 
-      case "npmScript": {
-        const favSuffix = script.isFavorite ? "-fav" : "";
+      case "compound":
+        this.contextValue = script.running ? "compound-active" : "compound-idle";
+        this.iconPath = new vscode.ThemeIcon("run-all");
+        if (script.running) this.resourceUri = runningUri(script.id!);
+        this.description = script.description;
+        this.tooltip = script.running ? "Running — double-click to stop all steps" : "Compound — double-click to run";
+        this.command = { command: "runway.itemClicked", title: "Run", arguments: [this] };
+        break;
+
+      case "compoundStep":
+        this.contextValue = "compoundStep";
+        this.iconPath = new vscode.ThemeIcon(script.codicon ?? "arrow-down");
+        this.description = script.description;
+        break;
+
+      case "recentRuns":
+        this.contextValue = "recentRuns";
+        this.iconPath = new vscode.ThemeIcon("history");
+        break;
+
+      case "runRecord": {
+        const r = script.record!;
+        this.contextValue = "runRecord";
+        this.iconPath = r.endedAt === undefined
+          ? new vscode.ThemeIcon("loading~spin")
+          : r.exitCode === undefined
+            ? new vscode.ThemeIcon("circle-slash")
+            : r.exitCode === 0
+              ? new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"))
+              : new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+        this.description = describeRun(r, false);
+        this.tooltip = `${r.command}\n${r.cwd ?? ""}\nStarted ${new Date(r.startedAt).toLocaleString()}`;
+        this.command = { command: "runway.showRunTerminal", title: "Show Terminal", arguments: [this] };
+        break;
+      }
+
+      case "argPreset": {
+        const parentCommand = overrides.get(script.parent!.id!) ?? script.parent!.defaultCommand ?? "";
+        this.contextValue = "argPreset";
+        this.iconPath = new vscode.ThemeIcon("bookmark");
+        this.description = script.args;
+        this.tooltip = withArgs(script.parent!, parentCommand, script.args ?? "");
+        this.command = { command: "runway.itemClicked", title: "Run", arguments: [this] };
+        break;
+      }
+
+      case "npmScript":
+      case "task": {
+        const favSuffix = script.isFavorite ? (script.pinned ? "-fav-pinned" : "-fav") : "";
         this.contextValue = isRunning
           ? (isOverridden ? `runnable-active-overridden${favSuffix}` : `runnable-active${favSuffix}`)
           : (isOverridden ? `runnable-idle-overridden${favSuffix}` : `runnable-idle${favSuffix}`);
@@ -470,10 +1550,10 @@ class ScriptItem extends vscode.TreeItem {
             ? new vscode.ThemeIcon("wrench")
             : iconForScript(script.label, extensionUri);
         }
-        if (isRunning) this.resourceUri = vscode.Uri.parse(`runway-running://${encodeURIComponent(script.label)}`);
+        if (isRunning) this.resourceUri = runningUri(script.id!);
         if (!customLabel) this.description = script.description ?? effectiveCommand;
         this.tooltip = isRunning
-          ? `Running — double-click to stop\n${script.defaultCommand}`
+          ? `${runningText}\n${script.defaultCommand}`
           : isOverridden
             ? `Override: ${override}\nDefault: ${script.defaultCommand}`
             : script.defaultCommand;
@@ -486,11 +1566,11 @@ class ScriptItem extends vscode.TreeItem {
           ? (isOverridden ? "runnable-active-overridden" : "runnable-active")
           : (isOverridden ? "runnable-idle-overridden" : "runnable-idle");
         this.iconPath = isOverridden ? new vscode.ThemeIcon("wrench") : undefined;
-        if (isRunning) this.resourceUri = vscode.Uri.parse(`runway-running://${encodeURIComponent(script.label)}`);
-        if (!customLabel) this.description = effectiveCommand;
+        if (isRunning) this.resourceUri = runningUri(script.id!);
+        if (!customLabel) this.description = script.description ?? effectiveCommand;
         this.command = { command: "runway.itemClicked", title: "Run", arguments: [this] };
         this.tooltip = isRunning
-          ? `Running — double-click to stop\n${script.defaultCommand}`
+          ? `${runningText}\n${script.defaultCommand}`
           : isOverridden
             ? `Override: ${override}\nDefault: ${script.defaultCommand}`
             : script.defaultCommand;
@@ -505,20 +1585,73 @@ class ScriptItem extends vscode.TreeItem {
         } else {
           this.resourceUri = vscode.Uri.file(script.filePath!);
         }
-        if (isRunning) this.resourceUri = vscode.Uri.parse(`runway-running://${encodeURIComponent(script.label)}`);
+        if (isRunning) this.resourceUri = runningUri(script.id!);
         if (!customLabel && isOverridden) this.description = override;
         this.tooltip = isRunning
-          ? `Running — double-click to stop\n${script.filePath}`
+          ? `${runningText}\n${script.filePath}`
           : isOverridden
             ? `Override: ${override}\nDefault: ${script.defaultCommand}`
             : script.filePath;
         this.command = { command: "runway.itemClicked", title: "Run", arguments: [this] };
         break;
     }
+
+    this.decorateInterpreter(script);
+    this.decorateWaiting(script);
+    this.decorateLastRun(script, isRunning || !!script.waitingFor);
+    this.decorateWatch(script, isRunning || !!script.waitingFor);
+    this.decorateServer(script);
+  }
+
+  private decorateInterpreter(script: Script) {
+    if (script.interpreter) this.tooltip = `${this.tooltip ?? ""}\nInterpreter: ${script.interpreter}`;
+  }
+
+  /** Shows a script waiting for its dependencies as busy, with Stop to cancel. */
+  private decorateWaiting(script: Script) {
+    if (!script.waitingFor || !this.contextValue?.startsWith("runnable-idle")) return;
+    this.contextValue = this.contextValue.replace("runnable-idle", "runnable-active");
+    this.iconPath = new vscode.ThemeIcon("loading~spin");
+    this.description = `waiting for ${script.waitingFor}`;
+    this.tooltip = `Waiting for ${script.waitingFor} to be ready — stop to cancel\n${this.tooltip ?? ""}`;
+  }
+
+  /** Appends the last run to the tooltip and shows its ✓/✗ badge while idle. */
+  private decorateLastRun(script: Script, isRunning: boolean) {
+    const last = script.lastRun;
+    if (!last || !this.contextValue?.startsWith("runnable-")) return;
+    this.tooltip = `${this.tooltip ?? ""}\n${describeRun(last, true)}`;
+    if (isRunning || last.endedAt === undefined || last.exitCode === undefined) return;
+    // Keep the theme file icon for file scripts now that resourceUri is taken
+    if (script.kind === "fileScript" && !script.iconFile) this.iconPath = vscode.ThemeIcon.File;
+    this.resourceUri = resultUri(script, last.exitCode === 0);
+  }
+
+  /** Marks watched scripts with an eye badge (coloured by the last result) while idle. */
+  private decorateWatch(script: Script, isRunning: boolean) {
+    if (!script.watch || !this.contextValue?.startsWith("runnable-")) return;
+    this.contextValue += "-watched";
+    this.tooltip = `${this.tooltip ?? ""}\nWatching ${script.watch.globs.join(", ")}`;
+    if (isRunning) return;
+    if (script.kind === "fileScript" && !script.iconFile) this.iconPath = vscode.ThemeIcon.File;
+    this.resourceUri = watchUri(script);
   }
 
-  private svgIcon(filename: string): { light: vscode.Uri; dark: vscode.Uri } {
-    const uri = vscode.Uri.joinPath(this.extensionUri, "images", filename);
+  /** Prefixes the description with the port a running dev server listens on. */
+  private decorateServer(script: Script) {
+    if (!script.server || !this.contextValue?.startsWith("runnable-")) return;
+    this.contextValue += "-url";
+    this.description = this.description ? `:${script.server.port} · ${this.description}` : `:${script.server.port}`;
+    this.tooltip = `${this.tooltip ?? ""}\nServing ${script.server.url}`;
+  }
+
+  /** A bundled image, or an icon from runway.scriptTypes (an image path or `$(codicon)`). */
+  private svgIcon(filename: string): vscode.ThemeIcon | { light: vscode.Uri; dark: vscode.Uri } {
+    const codicon = filename.match(/^\$\((.+)\)$/);
+    if (codicon) return new vscode.ThemeIcon(codicon[1]);
+    const uri = path.isAbsolute(filename)
+      ? vscode.Uri.file(filename)
+      : vscode.Uri.joinPath(this.extensionUri, "images", filename);
     return { light: uri, dark: uri };
   }
 }
@@ -537,10 +1670,33 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
     private readonly overrides: ScriptStore,
     private readonly labels: ScriptStore,
     private readonly favorites: ScriptStore,
-    private readonly runningTerminals: Set<string>
+    private readonly runs: RunManager,
+    private readonly argPresets: ScriptStore<ArgPreset[]>,
+    private readonly compounds: ScriptStore<Compound>,
+    private readonly compoundRuns: CompoundRunner,
+    private readonly history: RunHistory,
+    private readonly watches: ScriptStore<WatchSpec>,
+    private readonly pinned: ScriptStore,
+    private readonly servers: ServerDetector,
+    private readonly dependencies: DependencyRunner,
+    private readonly shells: ScriptStore
   ) {}
 
-  refresh() { this._onChange.fire(); }
+  /** directory scans, reused until the next refresh */
+  private readonly scanCache = new Map<string, string[]>();
+
+  /** package.json files of each workspace root, reused until the next refresh */
+  private readonly packageCache = new Map<string, string[]>();
+
+  /** detected interpreters by toolchain and directory, reused until the next refresh */
+  private readonly interpreterCache = new Map<string, Interpreter | undefined>();
+
+  refresh() {
+    this.scanCache.clear();
+    this.packageCache.clear();
+    this.interpreterCache.clear();
+    this._onChange.fire();
+  }
 
   getTreeItem(item: ScriptItem): vscode.TreeItem { return item; }
 
@@ -548,137 +1704,325 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
     if (!parent) return this.roots();
 
     switch (parent.script.kind) {
+      case "workspaceFolder": return this.sourceItems(parent.script.folder);
+      case "workspaceRoot": return this.workspacePackages(parent.script);
       case "packageGroup": return this.npmScripts(parent.script);
+      case "taskGroup":    return this.tasks(parent.script);
       case "makeGroup":    return this.makeTargets(parent.script);
       case "fileCategory": return this.fileCategoryChildren(parent.script);
-      case "moreScripts":  return (parent.script.children ?? []).map((s) => this.item(s));
-      default:             return [];
+      case "compound":     return this.compoundSteps(parent.script);
+      case "recentRuns":   return this.history.all().slice(0, RunHistory.SHOWN).map((record) =>
+        this.item({ kind: "runRecord", label: record.label, record }));
+      default:             return (parent.script.children ?? []).map((s) => this.item(s));
     }
   }
 
+  /** Every runnable script across all sources, for pickers and compounds. */
+  async allRunnable(): Promise<Script[]> {
+    const found = new Map<string, Script>();
+    const walk = async (items: ScriptItem[]) => {
+      for (const item of items) {
+        const { script } = item;
+        if (script.kind === "compound" || script.kind === "recentRuns") continue;
+        if (script.id) found.set(script.id, script);
+        await walk(await this.getChildren(item));
+      }
+    };
+    await walk(await this.roots());
+    return [...found.values()];
+  }
+
   // -- Root items ----------------------------------------------------------
 
   private async roots(): Promise<ScriptItem[]> {
-    const all = this.sources.getAll();
     const items: ScriptItem[] = [];
 
-    // 1. Package.json groups
-    for (const src of all.filter((s) => s.type === "packageJson")) {
-      const item = this.packageGroupItem(src.path);
-      if (item) items.push(item);
+    // 0. Compounds
+    for (const [id, compound] of Object.entries(this.compounds.personal())) {
+      items.push(
+        this.item({
+          kind: "compound",
+          label: compound.name,
+          id,
+          description: `${compound.steps.length} step${compound.steps.length === 1 ? "" : "s"}`,
+          running: this.compoundRuns.isRunning(id),
+        })
+      );
     }
 
-    // 2. Makefile groups (from directory sources)
-    for (const src of all.filter((s) => s.type === "directory")) {
-      for (const name of ["Makefile", "makefile", "GNUmakefile"]) {
-        const mkPath = path.join(src.path, name);
-        if (!fs.existsSync(mkPath)) continue;
-        if (!parseMakeTargets(mkPath).length) break;
-        items.push(
-          this.item({
-            kind: "makeGroup",
-            label: displayPath(src.path),
-            filePath: mkPath,
-            cwd: src.path,
-            sourcePath: src.path,
-          })
-        );
-        break;
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const grouped = folders.length > 1 &&
+      vscode.workspace.getConfiguration("runway").get<boolean>("groupByWorkspaceFolder", false);
+    if (grouped) {
+      // One row per workspace folder that has sources; sources outside
+      // every folder stay at the top level
+      for (const folder of folders) {
+        if (!this.sourcesIn(folder.uri.fsPath).length) continue;
+        items.push(this.item({
+          kind: "workspaceFolder",
+          label: folder.name,
+          filePath: folder.uri.fsPath,
+          folder: folder.uri.fsPath,
+        }));
       }
+      items.push(...await this.sourceItems(""));
+    } else {
+      items.push(...await this.sourceItems());
     }
 
-    // 3. File-type categories (from directory + file sources)
-    const categoryItems = await this.fileCategoryHeaders(all);
-    items.push(...categoryItems);
+    // 6. Recent runs
+    if (this.history.all().length) {
+      items.push(this.item({ kind: "recentRuns", label: "Recent Runs" }));
+    }
 
     return items;
   }
 
-  // -- Package groups ------------------------------------------------------
+  /**
+   * Sources in the given workspace folder ("" for sources outside every
+   * folder), or all sources when `folder` is undefined.
+   */
+  private sourcesIn(folder?: string): Source[] {
+    const all = this.sources.getAll();
+    if (folder === undefined) return all;
+    return all.filter((s) => (workspaceFolderFor(s.path)?.uri.fsPath ?? "") === folder);
+  }
 
-  private packageGroupItem(pkgPath: string): ScriptItem | undefined {
-    try {
-      const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf8"));
-      if (!pkg.scripts || !Object.keys(pkg.scripts).length) return undefined;
+  /** Group and category rows for the sources of one workspace folder (or all). */
+  private async sourceItems(folder?: string): Promise<ScriptItem[]> {
+    const all = this.sourcesIn(folder);
+    const items: ScriptItem[] = [];
+
+    // 1. Package.json groups
+    for (const src of all.filter((s) => s.type === "packageJson")) {
+      const item = this.packageGroupItem(src.path, src.activeProfile);
+      if (item) items.push(item);
+    }
+
+    // 2. Monorepo workspaces
+    for (const src of all.filter((s) => s.type === "workspace")) {
+      if (!fs.existsSync(src.path)) continue;
+      const pm = detectPM(src.path);
+      let name = path.basename(src.path);
+      try { name = JSON.parse(fs.readFileSync(path.join(src.path, "package.json"), "utf8")).name || name; } catch { /* ignore */ }
+      const count = this.packages(src.path).length;
+      items.push(
+        this.item({
+          kind: "workspaceRoot",
+          label: name,
+          filePath: fs.existsSync(path.join(src.path, "pnpm-workspace.yaml"))
+            ? path.join(src.path, "pnpm-workspace.yaml")
+            : path.join(src.path, "package.json"),
+          cwd: src.path,
+          sourcePath: src.path,
+          pm,
+          iconFile: pmIcon(pm),
+          description: `${pm} · ${count} package${count === 1 ? "" : "s"}`,
+          profile: src.activeProfile,
+        })
+      );
+    }
+
+    // 3. Makefile groups (from directory sources and makefile file sources)
+    for (const src of all) {
+      let mkPath: string | undefined;
+      if (src.type === "directory") {
+        mkPath = MAKEFILE_NAMES.map((name) => path.join(src.path, name)).find((p) => fs.existsSync(p));
+      } else if (src.type === "file" && isMakefile(src.path)) {
+        mkPath = src.path;
+      }
+      if (!mkPath || !parseMakeTargets(mkPath).length) continue;
+      items.push(
+        this.item({
+          kind: "makeGroup",
+          label: displayPath(src.type === "directory" ? src.path : mkPath),
+          filePath: mkPath,
+          cwd: path.dirname(mkPath),
+          sourcePath: src.path,
+          profile: src.activeProfile,
+        })
+      );
+    }
+
+    // 4. Task runner groups (justfile, Taskfile.yml, deno.json, composer.json)
+    for (const src of all) {
+      const runner = taskRunnerFor(src.type);
+      if (!runner) continue;
+      try {
+        if (!runner.parse(fs.readFileSync(src.path, "utf8")).length) continue;
+      } catch { continue; }
+      items.push(
+        this.item({
+          kind: "taskGroup",
+          label: path.basename(path.dirname(src.path)),
+          filePath: src.path,
+          cwd: path.dirname(src.path),
+          sourcePath: src.path,
+          runner: runner.type,
+          profile: src.activeProfile,
+        })
+      );
+    }
+
+    // 5. File-type categories (from directory + file sources)
+    const categoryItems = await this.fileCategoryHeaders(all, folder);
+    items.push(...categoryItems);
+
+    return items;
+  }
+
+  // -- Compounds -----------------------------------------------------------
+
+  private async compoundSteps(group: Script): Promise<ScriptItem[]> {
+    const compound = this.compounds.get(group.id!);
+    if (!compound) return [];
+    const scripts = await this.allRunnable();
+    return compound.steps.map((step, i) => {
+      const target = scripts.find((s) => s.id === step.scriptId);
+      return this.item({
+        kind: "compoundStep",
+        label: target ? (this.labels.get(target.id!) ?? terminalName(target)) : step.scriptId,
+        description: target ? describeStep(step, i) : "missing — source removed?",
+        codicon: !target ? "warning" : step.mode === "parallel" && i > 0 ? "arrow-both" : "arrow-down",
+      });
+    });
+  }
+
+  // -- Package groups ------------------------------------------------------
+
+  /**
+   * @param workspace for packages discovered in a monorepo: the workspace
+   *   root source, whose lockfile decides the package manager
+   */
+  private packageGroupItem(pkgPath: string, profile?: string, workspace?: Script): ScriptItem | undefined {
+    try {
+      const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf8"));
+      if (!pkg.scripts || !Object.keys(pkg.scripts).length) return undefined;
 
       const dir = path.dirname(pkgPath);
-      const pm = detectPM(dir);
+      const pm = workspace?.pm ?? detectPM(dir);
       const appName = pkg.name || path.basename(dir);
-      const pmIconFile = pm === "pnpm" ? "pnpm.svg"
-        : pm === "yarn" ? "yarn.svg"
-        : pm === "bun"  ? "bun.svg"
-        : "npm.svg";
 
       return this.item({
         kind: "packageGroup",
         label: appName,
         filePath: pkgPath,
         cwd: dir,
-        sourcePath: pkgPath,
+        sourcePath: workspace?.sourcePath ?? pkgPath,
         pm,
-        iconFile: pmIconFile,
+        iconFile: pmIcon(pm),
+        profile,
       });
     } catch { return undefined; }
   }
 
+  private workspacePackages(root: Script): ScriptItem[] {
+    const rootPkg = path.join(root.cwd!, "package.json");
+    return [rootPkg, ...this.packages(root.cwd!)]
+      .map((pkgPath) => this.packageGroupItem(pkgPath, undefined, root))
+      .filter((item): item is ScriptItem => item !== undefined);
+  }
+
   private npmScripts(group: Script): ScriptItem[] {
     try {
       const pkg = JSON.parse(fs.readFileSync(group.filePath!, "utf8"));
       const pm = group.pm ?? "npm";
-      const allScripts = Object.entries<string>(pkg.scripts ?? {}).map(([name, cmd]) => ({
-        kind: "npmScript" as ScriptKind,
-        label: name,
-        id: `npm:${group.filePath}:${name}`,
-        defaultCommand: `${pm} run ${name}`,
+      const allScripts = Object.entries<string>(pkg.scripts ?? {}).map(([name, cmd]) => {
+        const id = `npm:${group.filePath}:${name}`;
+        const kind = resolveShell({ id, sourcePath: group.sourcePath }, this.sources, this.shells).kind;
+        const node = this.node(group.cwd!, group.sourcePath!, kind);
+        return {
+          kind: "npmScript" as ScriptKind,
+          label: name,
+          id,
+          group: group.label,
+          defaultCommand: `${node?.command ?? ""}${pm} run ${quoteArg(name, kind)}`,
+          cwd: group.cwd,
+          filePath: group.filePath,
+          sourcePath: group.sourcePath,
+          description: cmd,
+          interpreter: node?.label,
+        };
+      });
+      return this.withFavorites(allScripts);
+    } catch { return []; }
+  }
+
+  // -- Task runners --------------------------------------------------------
+
+  private tasks(group: Script): ScriptItem[] {
+    const runner = taskRunnerFor(group.runner!)!;
+    try {
+      const defs = runner.parse(fs.readFileSync(group.filePath!, "utf8"));
+      return this.withFavorites(defs.map((task) => ({
+        kind: "task" as ScriptKind,
+        label: task.name,
+        id: `${runner.type}:${group.filePath}:${task.name}`,
+        group: group.label,
+        defaultCommand: runner.makeCommand(task.name),
         cwd: group.cwd,
         filePath: group.filePath,
-        description: cmd,
-      }));
+        line: task.line,
+        sourcePath: group.sourcePath,
+        description: task.description,
+      })));
+    } catch { return []; }
+  }
 
-      // Check if any scripts in this group are favorited
-      const favIds = allScripts.filter((s) => this.favorites.get(s.id!) === "1");
-      if (favIds.length === 0) {
-        // No favorites — show everything as before
-        return allScripts.map((s) => this.item(s));
-      }
+  /** Favorited scripts first; the rest go into a collapsed "More Scripts" row. */
+  private withFavorites(allScripts: Script[]): ScriptItem[] {
+    // Check if any scripts in this group are favorited
+    const favIds = allScripts.filter((s) => this.favorites.get(s.id!) === "1");
+    if (favIds.length === 0) {
+      // No favorites — show everything as before
+      return allScripts.map((s) => this.item(s));
+    }
 
-      // Split into favorites and the rest
-      const favs = allScripts
-        .filter((s) => this.favorites.get(s.id!) === "1")
-        .map((s) => this.item({ ...s, isFavorite: true }));
-      const rest = allScripts.filter((s) => this.favorites.get(s.id!) !== "1");
+    // Split into favorites and the rest
+    const favs = allScripts
+      .filter((s) => this.favorites.get(s.id!) === "1")
+      .map((s) => this.item({ ...s, isFavorite: true }));
+    const rest = allScripts.filter((s) => this.favorites.get(s.id!) !== "1");
 
-      if (rest.length === 0) return favs;
+    if (rest.length === 0) return favs;
 
-      // Add a collapsed "More Scripts" group for unfavorited items
-      const moreGroup = this.item({
-        kind: "moreScripts",
-        label: `More Scripts (${rest.length})`,
-        children: rest,
-      });
+    // Add a collapsed "More Scripts" group for unfavorited items
+    const moreGroup = this.item({
+      kind: "moreScripts",
+      label: `More Scripts (${rest.length})`,
+      children: rest,
+    });
 
-      return [...favs, moreGroup];
-    } catch { return []; }
+    return [...favs, moreGroup];
   }
 
   // -- Makefile ------------------------------------------------------------
 
   private makeTargets(group: Script): ScriptItem[] {
-    return parseMakeTargets(group.filePath!).map((target) =>
-      this.item({
+    const mkFile = group.filePath!;
+    return parseMakeTargets(mkFile, group.cwd).map((target) => {
+      const id = `make:${mkFile}:${target.name}`;
+      const kind = resolveShell({ id, sourcePath: group.sourcePath }, this.sources, this.shells).kind;
+      // A makefile added on its own isn't necessarily the one make picks by default
+      const make = group.sourcePath === mkFile ? `make -f ${quoteArg(path.basename(mkFile), kind)}` : "make";
+      return this.item({
         kind: "makeTarget",
-        label: target,
-        id: `make:${group.filePath}:${target}`,
-        defaultCommand: `make ${target}`,
+        label: target.name,
+        id,
+        group: group.label,
+        defaultCommand: `${make} ${target.name}`,
         cwd: group.cwd,
-        filePath: group.filePath,
-      })
-    );
+        filePath: target.file,
+        line: target.line,
+        sourcePath: group.sourcePath,
+        description: target.description,
+      });
+    });
   }
 
   // -- File categories -----------------------------------------------------
 
-  private async fileCategoryHeaders(all: Source[]): Promise<ScriptItem[]> {
+  private async fileCategoryHeaders(all: Source[], folder?: string): Promise<ScriptItem[]> {
     const dirSources = all.filter((s) => s.type === "directory");
     const fileSources = all.filter((s) => s.type === "file");
     const categories: ScriptItem[] = [];
@@ -686,10 +2030,9 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
     // Identify files with bun shebangs so we can separate them
     const bunFiles = new Set<string>();
     for (const src of dirSources) {
-      if (!fs.existsSync(src.path)) continue;
-      for (const f of fs.readdirSync(src.path)) {
-        if (!EXT_TO_TYPE.has(path.extname(f))) continue;
-        const abs = path.join(src.path, f);
+      for (const rel of this.scan(src)) {
+        if (!EXT_TO_TYPE.has(path.extname(rel))) continue;
+        const abs = path.join(src.path, rel);
         if (isBunShebang(abs)) bunFiles.add(abs);
       }
     }
@@ -705,6 +2048,7 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
           label: "Bun Scripts",
           iconFile: "bun.svg",
           categoryKind: "bun",
+          folder,
         })
       );
     }
@@ -716,10 +2060,9 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
 
       // Check directories (excluding bun-shebang files)
       for (const src of dirSources) {
-        if (!fs.existsSync(src.path)) continue;
-        if (fs.readdirSync(src.path).some((f) => {
-          if (!type.extensions.includes(path.extname(f))) return false;
-          return !bunFiles.has(path.join(src.path, f));
+        if (this.scan(src).some((rel) => {
+          if (!type.extensions.includes(path.extname(rel))) return false;
+          return !bunFiles.has(path.join(src.path, rel));
         })) {
           hasAny = true;
           break;
@@ -740,6 +2083,7 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
             label: type.label,
             iconFile: type.iconFile,
             categoryKind: type.kind,
+            folder,
           })
         );
       }
@@ -749,29 +2093,25 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
   }
 
   private fileCategoryChildren(cat: Script): ScriptItem[] {
-    if (cat.categoryKind === "bun") return this.bunCategoryChildren();
+    if (cat.categoryKind === "bun") return this.bunCategoryChildren(cat.folder);
 
     const type = FILE_SCRIPT_TYPES.find((t) => t.kind === cat.categoryKind);
     if (!type) return [];
 
-    const all = this.sources.getAll();
-    const items: ScriptItem[] = [];
+    const all = this.sourcesIn(cat.folder);
+    const scripts: Script[] = [];
     const seen = new Set<string>();
 
     // From directory sources (excluding bun-shebang files)
     for (const src of all.filter((s) => s.type === "directory")) {
-      if (!fs.existsSync(src.path)) continue;
-      const files = fs.readdirSync(src.path)
-        .filter((f) => type.extensions.includes(path.extname(f)))
-        .sort();
-
-      for (const file of files) {
-        const absPath = path.join(src.path, file);
-        if (seen.has(absPath)) continue;
-        if (isBunShebang(absPath)) continue;
+      const files = this.scan(src).filter((rel) => {
+        const absPath = path.join(src.path, rel);
+        if (!type.extensions.includes(path.extname(rel)) || seen.has(absPath)) return false;
+        if (isBunShebang(absPath)) return false;
         seen.add(absPath);
-        items.push(this.fileScriptItem(absPath, src.path, type, file));
-      }
+        return true;
+      });
+      scripts.push(...this.folderTree(src, "", files));
     }
 
     // From individual file sources (excluding bun-shebang files)
@@ -780,31 +2120,26 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
       if (!type.extensions.includes(path.extname(src.path))) continue;
       if (isBunShebang(src.path)) continue;
       seen.add(src.path);
-      items.push(this.fileScriptItem(src.path, path.dirname(src.path), type, path.basename(src.path)));
+      scripts.push(this.fileScript(src.path, path.dirname(src.path), type, path.basename(src.path), src.path));
     }
 
-    return items;
+    return scripts.map((s) => this.item(s));
   }
 
-  private bunCategoryChildren(): ScriptItem[] {
-    const all = this.sources.getAll();
-    const items: ScriptItem[] = [];
+  private bunCategoryChildren(folder?: string): ScriptItem[] {
+    const all = this.sourcesIn(folder);
+    const scripts: Script[] = [];
     const seen = new Set<string>();
 
     for (const src of all.filter((s) => s.type === "directory")) {
-      if (!fs.existsSync(src.path)) continue;
-      const files = fs.readdirSync(src.path)
-        .filter((f) => EXT_TO_TYPE.has(path.extname(f)))
-        .sort();
-
-      for (const file of files) {
-        const absPath = path.join(src.path, file);
-        if (seen.has(absPath)) continue;
-        if (!isBunShebang(absPath)) continue;
+      const files = this.scan(src).filter((rel) => {
+        const absPath = path.join(src.path, rel);
+        if (!EXT_TO_TYPE.has(path.extname(rel)) || seen.has(absPath)) return false;
+        if (!isBunShebang(absPath)) return false;
         seen.add(absPath);
-        const type = EXT_TO_TYPE.get(path.extname(file))!;
-        items.push(this.fileScriptItem(absPath, src.path, type, file, "bun.svg"));
-      }
+        return true;
+      });
+      scripts.push(...this.folderTree(src, "", files, "bun.svg"));
     }
 
     for (const src of all.filter((s) => s.type === "file")) {
@@ -813,13 +2148,74 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
       if (!isBunShebang(src.path)) continue;
       seen.add(src.path);
       const type = EXT_TO_TYPE.get(path.extname(src.path))!;
-      items.push(this.fileScriptItem(src.path, path.dirname(src.path), type, path.basename(src.path), "bun.svg"));
+      scripts.push(this.fileScript(src.path, path.dirname(src.path), type, path.basename(src.path), src.path, "bun.svg"));
     }
 
-    return items;
+    return scripts.map((s) => this.item(s));
+  }
+
+  private scan(src: Source): string[] {
+    let files = this.scanCache.get(src.path);
+    if (!files) {
+      files = scanDirectory(src);
+      this.scanCache.set(src.path, files);
+    }
+    return files;
+  }
+
+  private packages(rootDir: string): string[] {
+    let files = this.packageCache.get(rootDir);
+    if (!files) {
+      files = discoverWorkspacePackages(rootDir);
+      this.packageCache.set(rootDir, files);
+    }
+    return files;
+  }
+
+  /**
+   * Mirrors the subfolder structure of scanned files: files directly in
+   * `prefix` become rows, each subfolder a collapsible folder row.  Scripts
+   * always run from the source directory, with their relative path.
+   */
+  private folderTree(src: Source, prefix: string, files: string[], iconOverride?: string): Script[] {
+    const scripts: Script[] = [];
+    const subfolders = new Map<string, string[]>();
+    for (const rel of files) {
+      const rest = rel.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      if (slash >= 0) {
+        const folder = prefix + rest.slice(0, slash + 1);
+        subfolders.set(folder, [...(subfolders.get(folder) ?? []), rel]);
+        continue;
+      }
+      const absPath = path.join(src.path, rel);
+      const type = EXT_TO_TYPE.get(path.extname(rel))!;
+      const script = this.fileScript(absPath, src.path, type, rel, src.path, iconOverride);
+      // Inside a folder row the folder already says where the file lives
+      scripts.push(prefix ? { ...script, label: path.basename(rel) } : script);
+    }
+
+    for (const [folder, folderFiles] of [...subfolders].sort(([a], [b]) => a.localeCompare(b))) {
+      const absFolder = path.join(src.path, folder);
+      scripts.push({
+        kind: "folder",
+        label: prefix ? path.basename(folder) : displayPath(absFolder),
+        filePath: absFolder,
+        sourcePath: src.path,
+        children: this.folderTree(src, folder, folderFiles, iconOverride),
+      });
+    }
+    return scripts;
   }
 
-  private fileScriptItem(absPath: string, cwd: string, type: FileScriptType, filename: string, iconOverride?: string): ScriptItem {
+  private fileScript(
+    absPath: string,
+    cwd: string,
+    type: FileScriptType,
+    filename: string,
+    sourcePath: string,
+    iconOverride?: string
+  ): Script {
     absPath = resolveToWorkspace(absPath);
     cwd = resolveToWorkspace(cwd);
 
@@ -829,7 +2225,7 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
     // this by running from the workspace root with a relative path instead.
     let effectiveFilename = filename;
     let effectiveCwd = cwd;
-    const wsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const wsRoot = workspaceFolderFor(cwd)?.uri.fsPath;
     if (wsRoot) {
       try {
         const stat = fs.lstatSync(cwd);
@@ -843,26 +2239,80 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
       } catch { /* ignore */ }
     }
 
-    const shebangCmd = readShebang(absPath);
-    const defaultCommand = shebangCmd
-      ? `${shebangCmd} "${effectiveFilename}"`
-      : type.makeCommand(effectiveFilename);
-    return this.item({
+    const id = `file:${absPath}`;
+    const kind = resolveShell({ id, sourcePath }, this.sources, this.shells).kind;
+    const quote = (arg: string) => quoteArg(arg, kind);
+    const shebangCmd = type.configured ? undefined : readShebang(absPath);
+    let defaultCommand = shebangCmd
+      ? `${shebangCmd} ${quote(effectiveFilename)}`
+      : type.makeCommand(effectiveFilename, quote);
+
+    // Swap a plain python3/node for the project's own interpreter
+    let interpreter: Interpreter | undefined;
+    if (!type.configured && type.kind === "python" && /^python[\d.]*(\s|$)/.test(defaultCommand)) {
+      const python = interpreter = this.python(path.dirname(absPath), sourcePath, kind);
+      if (python) defaultCommand = defaultCommand.replace(/^python[\d.]*/, () => python.command);
+    } else if (!type.configured && (type.kind === "javascript" || type.kind === "typescript") && /^(node|npx)\s/.test(defaultCommand)) {
+      interpreter = this.node(path.dirname(absPath), sourcePath, kind);
+      if (interpreter) defaultCommand = interpreter.command + defaultCommand;
+    }
+    return {
       kind: "fileScript",
       label: displayPath(absPath),
-      id: `file:${absPath}`,
+      id,
       defaultCommand,
       cwd: effectiveCwd,
       filePath: absPath,
-      sourcePath: absPath,
+      sourcePath,
       iconFile: iconOverride ?? type.fileIconFile,
-    });
+      interpreter: interpreter?.label,
+    };
+  }
+
+  /** The source's Python override, else the nearest project environment. */
+  private python(dir: string, sourcePath: string, kind: ShellKind): Interpreter | undefined {
+    const override = this.sources.getAll().find((s) => s.path === sourcePath)?.python;
+    if (override === SYSTEM_INTERPRETER) return undefined;
+    if (override) return customPython(override, kind);
+    const key = `python:${kind}:${dir}`;
+    if (!this.interpreterCache.has(key)) this.interpreterCache.set(key, detectPython(dir, kind));
+    return this.interpreterCache.get(key);
+  }
+
+  /** The source's Node version override, else the nearest pinned version. */
+  private node(dir: string, sourcePath: string, kind: ShellKind): Interpreter | undefined {
+    const override = this.sources.getAll().find((s) => s.path === sourcePath)?.node;
+    if (override === SYSTEM_INTERPRETER) return undefined;
+    const key = `node:${kind}:${dir}:${override ?? ""}`;
+    if (!this.interpreterCache.has(key)) this.interpreterCache.set(key, detectNode(dir, override, kind));
+    return this.interpreterCache.get(key);
   }
 
   // -- Helper --------------------------------------------------------------
 
   private item(script: Script): ScriptItem {
-    return new ScriptItem(script, this.extensionUri, this.overrides, this.labels, this.runningTerminals);
+    if (script.id) {
+      script = {
+        ...script,
+        lastRun: this.history.last(script.id),
+        watch: this.watches.get(script.id),
+        pinned: this.pinned.get(script.id) === "1",
+        server: this.servers.get(script.id),
+        waitingFor: this.dependencies.waitingFor(script.id),
+      };
+    }
+    return new ScriptItem(this.withPresets(script), this.extensionUri, this.overrides, this.labels, this.runs);
+  }
+
+  /** Attaches named argument presets as child rows of a runnable script. */
+  private withPresets(script: Script): Script {
+    if (!script.id || script.kind === "argPreset") return script;
+    const named = (this.argPresets.get(script.id) ?? []).filter((p) => p.name);
+    if (!named.length) return script;
+    return {
+      ...script,
+      children: named.map((p) => ({ kind: "argPreset", label: p.name!, args: p.args, parent: script })),
+    };
   }
 }
 
@@ -872,22 +2322,25 @@ class ScriptProvider implements vscode.TreeDataProvider<ScriptItem> {
 
 class WatcherManager implements vscode.Disposable {
   private readonly watchers = new Map<string, vscode.Disposable[]>();
+  /** scan options each directory watcher was created with */
+  private readonly scanSpecs = new Map<string, string>();
 
   constructor(
     private readonly sources: SourceStore,
     private readonly onRefresh: () => void
   ) {}
 
-  /** Call after any source is added or removed to reconcile watchers. */
+  /** Call after any source is added, removed or rescoped to reconcile watchers. */
   sync() {
     const all = this.sources.getAll();
-    const currentPaths = new Set(all.map((s) => s.path));
+    const currentSpecs = new Map(all.map((s) => [s.path, WatcherManager.scanSpec(s)]));
 
-    // Tear down watchers for sources that were removed
+    // Tear down watchers for sources that were removed or whose scan options changed
     for (const [p, disposables] of this.watchers) {
-      if (!currentPaths.has(p)) {
+      if (currentSpecs.get(p) !== this.scanSpecs.get(p)) {
         disposables.forEach((d) => d.dispose());
         this.watchers.delete(p);
+        this.scanSpecs.delete(p);
       }
     }
 
@@ -897,8 +2350,8 @@ class WatcherManager implements vscode.Disposable {
 
       const disposables: vscode.Disposable[] = [];
 
-      if (src.type === "packageJson") {
-        // Watch the specific package.json file for edits
+      if (src.type === "packageJson" || taskRunnerFor(src.type)) {
+        // Watch the specific package.json (or task file) for edits
         // Resolve symlinks so the watcher monitors the real target
         let watchDir: string;
         try { watchDir = fs.realpathSync(path.dirname(src.path)); } catch { watchDir = path.dirname(src.path); }
@@ -910,15 +2363,49 @@ class WatcherManager implements vscode.Disposable {
         watcher.onDidCreate(this.onRefresh);
         watcher.onDidDelete(this.onRefresh);
         disposables.push(watcher);
+      } else if (src.type === "workspace") {
+        // Watch every package.json (packages added, removed or edited) plus
+        // pnpm-workspace.yaml, ignoring anything under node_modules
+        let watchPath: string;
+        try { watchPath = fs.realpathSync(src.path); } catch { watchPath = src.path; }
+        const watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(vscode.Uri.file(watchPath), "{**/package.json,pnpm-workspace.yaml}")
+        );
+        const onEvent = (uri: vscode.Uri) => {
+          if (!uri.fsPath.split(path.sep).includes("node_modules")) this.onRefresh();
+        };
+        watcher.onDidChange(onEvent);
+        watcher.onDidCreate(onEvent);
+        watcher.onDidDelete(onEvent);
+        disposables.push(watcher);
       } else if (src.type === "directory") {
-        // Watch for any file added/removed/changed directly inside the directory
-        // (covers new script files and Makefile edits)
+        // Watch for any file added/removed/changed inside the directory —
+        // directly, or at any depth for recursive sources (covers new script
+        // files and Makefile edits)
         // Resolve symlinks so the watcher monitors the real target
         let watchPath: string;
         try { watchPath = fs.realpathSync(src.path); } catch { watchPath = src.path; }
         const dir = vscode.Uri.file(watchPath);
         const watcher = vscode.workspace.createFileSystemWatcher(
-          new vscode.RelativePattern(dir, "*")
+          new vscode.RelativePattern(dir, src.recursive ? "**/*" : "*")
+        );
+        const exclude = src.exclude ?? DEFAULT_SCAN_EXCLUDES;
+        const onEvent = (uri: vscode.Uri) => {
+          const rel = path.relative(watchPath, uri.fsPath).split(path.sep);
+          // Ignore churn inside excluded folders such as node_modules
+          const excluded = rel.some((_, i) => exclude.some((g) => matchesScanGlob(rel.slice(0, i + 1).join("/"), g)));
+          if (!excluded) this.onRefresh();
+        };
+        watcher.onDidChange(onEvent);
+        watcher.onDidCreate(onEvent);
+        watcher.onDidDelete(onEvent);
+        disposables.push(watcher);
+      } else if (src.type === "file" && isMakefile(src.path)) {
+        // Watch the makefile and any .mk files next to it (typical includes)
+        let watchPath: string;
+        try { watchPath = fs.realpathSync(src.path); } catch { watchPath = src.path; }
+        const watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(vscode.Uri.file(path.dirname(watchPath)), `{${path.basename(watchPath)},*.mk}`)
         );
         watcher.onDidChange(this.onRefresh);
         watcher.onDidCreate(this.onRefresh);
@@ -927,6 +2414,7 @@ class WatcherManager implements vscode.Disposable {
       }
 
       this.watchers.set(src.path, disposables);
+      this.scanSpecs.set(src.path, WatcherManager.scanSpec(src));
     }
   }
 
@@ -935,6 +2423,11 @@ class WatcherManager implements vscode.Disposable {
       disposables.forEach((d) => d.dispose());
     }
     this.watchers.clear();
+    this.scanSpecs.clear();
+  }
+
+  private static scanSpec(src: Source): string {
+    return JSON.stringify([src.type, src.recursive ?? false, src.exclude ?? null]);
   }
 }
 
@@ -954,6 +2447,24 @@ class RunningDecorationProvider implements vscode.FileDecorationProvider {
         propagate: false,
       };
     }
+    if (uri.scheme === "runway-result") {
+      const ok = uri.query.startsWith("ok&");
+      return {
+        badge: ok ? "✓" : "✗",
+        color: ok ? undefined : new vscode.ThemeColor("list.errorForeground"),
+        tooltip: ok ? "Last run succeeded" : "Last run failed",
+        propagate: false,
+      };
+    }
+    if (uri.scheme === "runway-watch") {
+      const failed = uri.query.startsWith("fail&");
+      return {
+        badge: "👁",
+        color: failed ? new vscode.ThemeColor("list.errorForeground") : undefined,
+        tooltip: failed ? "Watching for changes — last run failed" : "Watching for changes",
+        propagate: false,
+      };
+    }
     return undefined;
   }
 
@@ -963,13 +2474,34 @@ class RunningDecorationProvider implements vscode.FileDecorationProvider {
 }
 
 export function activate(context: vscode.ExtensionContext) {
-  const sources = new SourceStore(context.workspaceState);
-  const overrides = new ScriptStore(context.workspaceState, "runway.overrides");
-  const labels = new ScriptStore(context.workspaceState, "runway.labels");
-  const favorites = new ScriptStore(context.workspaceState, "runway.favorites");
-  const runningTerminals = new Set<string>();
-  const provider = new ScriptProvider(context.extensionUri, sources, overrides, labels, favorites, runningTerminals);
+  loadScriptTypes();
+  const teamConfig = new TeamConfig();
+  const sources = new SourceStore(context.workspaceState, teamConfig);
+  const overrides = new ScriptStore(context.workspaceState, "runway.overrides", () => teamConfig.overrides());
+  const labels = new ScriptStore(context.workspaceState, "runway.labels", () => teamConfig.labels());
+  const favorites = new ScriptStore(context.workspaceState, "runway.favorites", () => teamConfig.favorites());
+  const rerunPolicies = new ScriptStore(context.workspaceState, "runway.rerunPolicy");
+  const runBackends = new ScriptStore(context.workspaceState, "runway.runBackend");
+  const shells = new ScriptStore(context.workspaceState, "runway.shells");
+  const argPresets = new ScriptStore<ArgPreset[]>(context.workspaceState, "runway.argPresets");
+  const scriptEnv = new ScriptStore<EnvSpec>(context.workspaceState, "runway.env");
+  const compounds = new ScriptStore<Compound>(context.workspaceState, "runway.compounds");
+  const problemMatchers = new ScriptStore<string[]>(context.workspaceState, "runway.problemMatchers");
+  const watches = new ScriptStore<WatchSpec>(context.workspaceState, "runway.watch");
+  const pinned = new ScriptStore(context.workspaceState, "runway.pinned");
+  const usualPorts = new ScriptStore<number>(context.workspaceState, "runway.ports");
+  const dependencies = new ScriptStore<Dependency[]>(context.workspaceState, "runway.dependencies");
+  const runs = new RunManager();
+  const compoundRuns = new CompoundRunner(runs);
+  const history = new RunHistory(context.workspaceState);
+  const servers = new ServerDetector(runs, usualPorts);
+  const dependencyRuns = new DependencyRunner(runs);
+  const provider = new ScriptProvider(
+    context.extensionUri, sources, overrides, labels, favorites, runs, argPresets, compounds, compoundRuns, history, watches, pinned, servers,
+    dependencyRuns, shells
+  );
   const decorationProvider = new RunningDecorationProvider();
+  history.endInterrupted().then(() => provider.refresh());
 
   const treeView = vscode.window.createTreeView("runwayView", {
     treeDataProvider: provider,
@@ -977,69 +2509,169 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   context.subscriptions.push(
-    vscode.window.registerFileDecorationProvider(decorationProvider)
+    runs,
+    compoundRuns,
+    servers,
+    dependencyRuns,
+    vscode.window.registerFileDecorationProvider(decorationProvider),
+    vscode.tasks.registerTaskProvider(
+      "runway",
+      new RunwayTaskProvider(provider, sources, overrides, labels, scriptEnv, problemMatchers, shells)
+    ),
+    new OutputDiagnostics(runs, problemMatchers)
   );
 
   const watcherManager = new WatcherManager(sources, () => provider.refresh());
   // Attach watchers for any sources persisted from a previous session
   watcherManager.sync();
 
-  function markRunning(name: string) {
-    runningTerminals.add(name);
-    decorationProvider.fire([vscode.Uri.parse(`runway-running://${encodeURIComponent(name)}`)]);
+  // Watch mode — restart a watched script when its files change
+  const scriptWatcher = new ScriptWatcher(watches, (id) => {
+    (async () => {
+      const script = (await provider.allRunnable()).find((s) => s.id === id);
+      if (script) await runScript(script, "restart");
+    })().catch((err) =>
+      vscode.window.showErrorMessage(`Could not re-run a watched script: ${(err as Error).message}`)
+    );
+  });
+  scriptWatcher.sync();
+  context.subscriptions.push(scriptWatcher);
+
+  // Repaint the badge and row whenever a script starts or stops
+  runs.onDidChange((id) => {
+    decorationProvider.fire([runningUri(id)]);
+    provider.refresh();
+  });
+  compoundRuns.onDidChange((id) => {
+    decorationProvider.fire([runningUri(id)]);
     provider.refresh();
+  });
+  servers.onDidChange(() => provider.refresh());
+  dependencyRuns.onDidChange(() => provider.refresh());
+
+  // Record every run; keep terminals around so history rows can focus them
+  const runTerminals = new Map<string, vscode.Terminal>();
+  const recordKey = (scriptId: string, startedAt: number) => `${scriptId}@${startedAt}`;
+  runs.onDidStartRun(async (run) => {
+    runTerminals.set(recordKey(run.scriptId, run.startedAt), run.terminal);
+    await history.start(run);
+    provider.refresh();
+  });
+  runs.onDidEndRun(async ({ run, exitCode }) => {
+    await history.end(run, exitCode);
+    provider.refresh();
+  });
+  context.subscriptions.push(
+    vscode.window.onDidCloseTerminal((t) => {
+      for (const [key, terminal] of runTerminals) if (terminal === t) runTerminals.delete(key);
+    })
+  );
+
+  function rerunPolicy(id: string): RerunPolicy {
+    return (rerunPolicies.get(id) as RerunPolicy | undefined)
+      ?? vscode.workspace.getConfiguration("runway").get<RerunPolicy>("rerunPolicy")
+      ?? "restart";
   }
 
-  function markStopped(name: string) {
-    runningTerminals.delete(name);
-    decorationProvider.fire([vscode.Uri.parse(`runway-running://${encodeURIComponent(name)}`)]);
-    provider.refresh();
+  function runBackend(id: string): RunBackend {
+    return (runBackends.get(id) as RunBackend | undefined)
+      ?? vscode.workspace.getConfiguration("runway").get<RunBackend>("runBackend")
+      ?? "terminal";
+  }
+
+  async function runScript(script: Script, policy = rerunPolicy(script.id!), args?: string): Promise<ScriptRun | undefined> {
+    if (script.kind === "compound") {
+      runCompound(script.id!);
+      return undefined;
+    }
+    // Start dependencies first and wait until they're ready
+    const deps = dependencies.get(script.id!) ?? [];
+    if (deps.length) {
+      if (dependencyRuns.waitingFor(script.id!)) return undefined;
+      const all = await provider.allRunnable();
+      const titleOf = (id: string) => {
+        const found = all.find((s) => s.id === id);
+        return found ? scriptTitle(found) : id;
+      };
+      const ready = await dependencyRuns.prepare(script.id!, deps, titleOf, async (depId) => {
+        const dep = all.find((s) => s.id === depId);
+        return dep ? runScript(dep) : undefined;
+      });
+      if (!ready) return undefined;
+    }
+    // Flag a clash on the port this script served on last time before it fails to bind
+    const port = usualPorts.get(script.id!);
+    if (port && !isScriptRunning(script.id!) && await portInUse(port)) {
+      const choice = await vscode.window.showWarningMessage(
+        `Port ${port} is already in use by another process.`,
+        { modal: true, detail: `"${scriptTitle(script)}" usually listens on port ${port}, so it may fail to start.` },
+        "Run Anyway"
+      );
+      if (choice !== "Run Anyway") return undefined;
+    }
+    const command = overrides.get(script.id!) ?? script.defaultCommand ?? "";
+    return runs.run(
+      script,
+      args ? withArgs(script, command, args) : command,
+      policy,
+      resolveEnv(script, sources, scriptEnv),
+      runBackend(script.id!),
+      resolveShell(script, sources, shells)
+    );
   }
 
-  // terminal name → command waiting for shell integration to activate
-  const pendingCommands = new Map<string, string>();
-  // terminal name → the TerminalShellExecution we started (to match end events)
-  const trackedExecutions = new Map<string, vscode.TerminalShellExecution>();
+  /** runScript for command handlers, which have no caller to pass its errors to. */
+  function startScript(script: Script, policy?: RerunPolicy, args?: string) {
+    runScript(script, policy, args).catch((err) =>
+      vscode.window.showErrorMessage(`Could not run "${scriptTitle(script)}": ${(err as Error).message}`)
+    );
+  }
 
-  // Track terminal lifecycle to update running indicators and decorations
-  context.subscriptions.push(
-    vscode.window.onDidOpenTerminal((t) => {
-      // Only mark Runway-managed terminals as running
-      if (pendingCommands.has(t.name) || trackedExecutions.has(t.name)) {
-        markRunning(t.name);
-      }
-    }),
-    vscode.window.onDidCloseTerminal((t) => {
-      pendingCommands.delete(t.name);
-      trackedExecutions.delete(t.name);
-      markStopped(t.name);
-    }),
+  /** Running, or waiting for its dependencies to start. */
+  function isScriptRunning(id: string): boolean {
+    return runs.isRunning(id) || compoundRuns.isRunning(id) || dependencyRuns.waitingFor(id) !== undefined;
+  }
 
-    // Shell integration activated — run the pending command via executeCommand
-    // so that onDidEndTerminalShellExecution fires when it exits.
-    vscode.window.onDidChangeTerminalShellIntegration(({ terminal, shellIntegration }) => {
-      const command = pendingCommands.get(terminal.name);
-      if (command) {
-        pendingCommands.delete(terminal.name);
-        // Small delay to let the shell prompt fully initialize — without this,
-        // executeCommand can silently fail if the prompt isn't ready yet.
-        setTimeout(() => {
-          const execution = shellIntegration.executeCommand(command);
-          trackedExecutions.set(terminal.name, execution);
-          markRunning(terminal.name);
-        }, 200);
-      }
-    }),
+  function stopScript(id: string) {
+    dependencyRuns.cancel(id);
+    runs.stop(id);
+    compoundRuns.stop(id);
+  }
 
-    // Fired when a shell-integration-tracked command ends (Ctrl+C, crash, natural exit).
-    vscode.window.onDidEndTerminalShellExecution((event) => {
-      const name = event.terminal.name;
-      if (trackedExecutions.get(name) === event.execution) {
-        trackedExecutions.delete(name);
-        markStopped(name);
+  function runCompound(id: string) {
+    const compound = compounds.get(id);
+    if (!compound) return;
+    compoundRuns.run(id, compound, async (scriptId) => {
+      const script = (await provider.allRunnable()).find((s) => s.id === scriptId);
+      if (!script) {
+        vscode.window.showWarningMessage(`"${compound.name}": skipped a step whose script no longer exists (${scriptId}).`);
+        return undefined;
       }
-    })
-  );
+      return runScript(script);
+    }).catch((err) =>
+      vscode.window.showErrorMessage(`"${compound.name}" stopped — ${(err as Error).message}`)
+    );
+  }
+
+  const scriptTitle = (script: Script) => labels.get(script.id!) ?? terminalName(script);
+
+  /** Compounds plus every runnable script from all sources. */
+  async function allScripts(): Promise<Script[]> {
+    const compoundScripts: Script[] = Object.entries(compounds.personal()).map(([id, c]) => ({
+      kind: "compound", label: c.name, id, description: `${c.steps.length} steps`,
+    }));
+    return [...compoundScripts, ...await provider.allRunnable()];
+  }
+
+  // Status bar — the tree repaints on every run and setting change, so follow it
+  const statusBar = new RunStatusBar(runs, compoundRuns, pinned, allScripts, scriptTitle);
+  statusBar.scheduleRefresh();
+  context.subscriptions.push(statusBar, provider.onDidChangeTreeData(() => statusBar.scheduleRefresh()));
+
+  function stopAll() {
+    runs.stopAll();
+    for (const r of compoundRuns.activeRuns()) compoundRuns.stop(r.scriptId);
+  }
 
   // Double-click to run (or stop if already running).
   // Uses TreeItem.command rather than onDidChangeSelection so it fires even
@@ -1048,24 +2680,23 @@ export function activate(context: vscode.ExtensionContext) {
   let lastClickTime = 0;
   context.subscriptions.push(
     vscode.commands.registerCommand("runway.itemClicked", (item: ScriptItem) => {
-      if (!item?.script.id) return;
+      // Preset rows run their parent script with the preset's arguments
+      const script = item?.script.parent ?? item?.script;
+      if (!script?.id) return;
 
-      const key = item.script.id;
+      const { args } = item.script;
+      const key = args === undefined ? script.id : `${script.id}\0${args}`;
       const now = Date.now();
-      const { script } = item;
-      const terminal = vscode.window.terminals.find((t) => t.name === script.label);
+      const terminal = runs.primaryTerminal(script.id);
 
       if (key === lastClickKey && now - lastClickTime < 300) {
         // Double-click
-        if (terminal && runningTerminals.has(script.label)) {
+        if (isScriptRunning(script.id)) {
           // Script is running — stop it
-          terminal.sendText("\x03");
-          terminal.show();
-          markStopped(script.label);
+          stopScript(script.id);
         } else {
           // Not running — start it
-          const override = script.id ? overrides.get(script.id) : undefined;
-          runInTerminal(script, override ?? script.defaultCommand ?? "", markRunning, pendingCommands, trackedExecutions);
+          startScript(script, undefined, args);
         }
         lastClickKey = "";
       } else {
@@ -1076,12 +2707,13 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }),
 
-    ...["Terminal", "Warp", "iTerm", "iTerm2"].map((app) =>
+    // One command per app, so the menu title can name the configured one
+    ...["Terminal", "Warp", "iTerm", "iTerm2", ...Object.keys(LINUX_TERMINALS), "custom"].map((app) =>
       vscode.commands.registerCommand(`runway.openInSystemTerminal.${app}`, (item: ScriptItem) => {
         const { script } = item;
         const override = script.id ? overrides.get(script.id) : undefined;
         const command = override ?? script.defaultCommand ?? "";
-        openInSystemTerminal(script.cwd ?? "", command);
+        openInSystemTerminal(script.cwd ?? "", command, resolveEnv(script, sources, scriptEnv), resolveShell(script, sources, shells));
       })
     ),
 
@@ -1105,16 +2737,17 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }
 
+      if (script.line !== undefined) {
+        const pos = new vscode.Position(script.line, 0);
+        await vscode.window.showTextDocument(uri, { selection: new vscode.Range(pos, pos) });
+        return;
+      }
+
       await vscode.commands.executeCommand("vscode.open", uri);
     }),
 
     vscode.commands.registerCommand("runway.stop", (item: ScriptItem) => {
-      const terminal = vscode.window.terminals.find((t) => t.name === item.script.label);
-      if (terminal) {
-        terminal.sendText("\x03");
-        terminal.show();
-        markStopped(item.script.label);
-      }
+      if (item.script.id) stopScript(item.script.id);
     })
   );
 
@@ -1126,9 +2759,34 @@ export function activate(context: vscode.ExtensionContext) {
   }
   updateMessage();
 
+  // Team config edits (including git pulls) re-sync watchers and the tree
+  teamConfig.onDidChange(() => {
+    watcherManager.sync();
+    provider.refresh();
+    updateMessage();
+  });
+
+  // Folder prefixes and grouping depend on the set of workspace folders
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => provider.refresh()),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("runway.scriptTypes")) {
+        loadScriptTypes();
+        provider.refresh();
+      } else if (
+        e.affectsConfiguration("runway.groupByWorkspaceFolder")
+        || e.affectsConfiguration("runway.shell")
+        || e.affectsConfiguration("terminal.integrated")
+      ) {
+        provider.refresh();
+      }
+    })
+  );
+
   context.subscriptions.push(
     treeView,
     watcherManager,
+    teamConfig,
 
     vscode.commands.registerCommand("runway.refresh", () => {
       provider.refresh();
@@ -1138,63 +2796,725 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand(
       "runway.run",
       (item: ScriptItem) => {
-        const { script } = item;
-        const override = script.id ? overrides.get(script.id) : undefined;
-        const command = override ?? script.defaultCommand ?? "";
-        runInTerminal(script, command, markRunning, pendingCommands, trackedExecutions);
+        const script = item.script.parent ?? item.script;
+        if (script.id) startScript(script, undefined, item.script.args);
       }
     ),
 
+    vscode.commands.registerCommand("runway.quickRun", async () => {
+      const scripts = await allScripts();
+      if (!scripts.length) {
+        vscode.window.showInformationMessage("No scripts yet — add a source in the Runway panel first.");
+        return;
+      }
+
+      const systemTerminalButton = { iconPath: new vscode.ThemeIcon("terminal"), tooltip: "Open in System Terminal" };
+      const stopButton = { iconPath: new vscode.ThemeIcon("debug-stop"), tooltip: "Stop" };
+      const openSourceButton = { iconPath: new vscode.ThemeIcon("go-to-file"), tooltip: "Open Source File" };
+      type Item = vscode.QuickPickItem & { script?: Script };
+
+      const toItem = (script: Script): Item => {
+        const id = script.id!;
+        const running = isScriptRunning(id);
+        const command = script.kind === "compound"
+          ? script.description
+          : overrides.get(id) ?? script.defaultCommand;
+        return {
+          label: `${running ? "$(debug-stop) " : ""}${labels.get(id) ?? script.label}`,
+          description: script.group,
+          detail: running ? `running · ${command}` : command,
+          script,
+          buttons: [
+            ...(script.kind !== "compound" ? [systemTerminalButton] : []),
+            ...(running ? [stopButton] : []),
+            ...(script.filePath ? [openSourceButton] : []),
+          ],
+        };
+      };
+
+      // Running first, then favorites, then recently run, then everything else
+      const recent = [...new Set(history.all().map((r) => r.scriptId))];
+      const sections: [string, Script[]][] = [
+        ["Running", scripts.filter((s) => isScriptRunning(s.id!))],
+        ["Favorites", scripts.filter((s) => favorites.get(s.id!) === "1")],
+        ["Recently Run", recent.flatMap((id) => scripts.filter((s) => s.id === id))],
+        ["All Scripts", scripts],
+      ];
+      const placed = new Set<string>();
+      const items: Item[] = [];
+      for (const [title, section] of sections) {
+        const fresh = section.filter((s) => !placed.has(s.id!));
+        if (!fresh.length) continue;
+        items.push({ label: title, kind: vscode.QuickPickItemKind.Separator });
+        for (const script of fresh) {
+          placed.add(script.id!);
+          items.push(toItem(script));
+        }
+      }
+
+      const qp = vscode.window.createQuickPick<Item>();
+      qp.title = "Run Script";
+      qp.placeholder = "Type to search scripts across all sources";
+      qp.matchOnDescription = true;
+      qp.matchOnDetail = true;
+      qp.items = items;
+      qp.onDidTriggerItemButton(({ item, button }) => {
+        const script = item.script!;
+        if (button === stopButton) {
+          stopScript(script.id!);
+          qp.items = qp.items.map((i) => (i.script === script ? toItem(script) : i));
+          return;
+        }
+        qp.hide();
+        if (button === openSourceButton) {
+          vscode.commands.executeCommand("runway.openSourceFile", { script });
+        } else {
+          const command = overrides.get(script.id!) ?? script.defaultCommand ?? "";
+          openInSystemTerminal(script.cwd ?? "", command, resolveEnv(script, sources, scriptEnv), resolveShell(script, sources, shells));
+        }
+      });
+      qp.onDidAccept(() => {
+        const script = qp.selectedItems[0]?.script;
+        qp.hide();
+        if (script) startScript(script);
+      });
+      qp.onDidHide(() => qp.dispose());
+      qp.show();
+    }),
+
+    vscode.commands.registerCommand("runway.showRunning", async () => {
+      if (!statusBar.running().length) {
+        vscode.window.showInformationMessage("No Runway scripts are running.");
+        return;
+      }
+      const scripts = await allScripts();
+      const restartButton = { iconPath: new vscode.ThemeIcon("debug-restart"), tooltip: "Restart" };
+      const stopButton = { iconPath: new vscode.ThemeIcon("debug-stop"), tooltip: "Stop" };
+      type Item = vscode.QuickPickItem & { script?: Script; stopAll?: boolean };
+
+      const toItems = (): Item[] => {
+        const running = statusBar.running();
+        const items: Item[] = running.flatMap((r) => {
+          const script = scripts.find((s) => s.id === r.scriptId);
+          if (!script) return [];
+          return [{
+            label: scriptTitle(script),
+            description: formatDuration(Date.now() - r.startedAt),
+            detail: script.kind === "compound" ? script.description : overrides.get(r.scriptId) ?? script.defaultCommand,
+            script,
+            // Compounds can't be restarted in place
+            buttons: script.kind === "compound" ? [stopButton] : [restartButton, stopButton],
+          }];
+        });
+        if (running.length) {
+          items.push({ label: "", kind: vscode.QuickPickItemKind.Separator });
+          items.push({ label: "$(debug-stop) Stop All", stopAll: true });
+        }
+        return items;
+      };
+
+      const qp = vscode.window.createQuickPick<Item>();
+      qp.title = "Running Scripts";
+      qp.placeholder = "Select a script to show its terminal";
+      qp.matchOnDetail = true;
+      qp.items = toItems();
+      // Keep the list current as scripts stop or restart
+      const listener = runs.onDidChange(() => { qp.items = toItems(); });
+      qp.onDidTriggerItemButton(({ item, button }) => {
+        const script = item.script!;
+        if (button === stopButton) stopScript(script.id!);
+        else startScript(script, "restart");
+        qp.items = toItems();
+      });
+      qp.onDidAccept(() => {
+        const [item] = qp.selectedItems;
+        qp.hide();
+        if (item?.stopAll) stopAll();
+        else if (item?.script) runs.primaryTerminal(item.script.id!)?.show();
+      });
+      qp.onDidHide(() => {
+        listener.dispose();
+        qp.dispose();
+      });
+      qp.show();
+    }),
+
+    vscode.commands.registerCommand("runway.stopAll", stopAll),
+
+    vscode.commands.registerCommand("runway.runPinned", async (id: string) => {
+      if (isScriptRunning(id)) {
+        runs.primaryTerminal(id)?.show();
+        return;
+      }
+      const script = (await allScripts()).find((s) => s.id === id);
+      if (script) startScript(script);
+    }),
+
     vscode.commands.registerCommand(
-      "runway.setOverride",
+      "runway.pinToStatusBar",
       async (item: ScriptItem) => {
-        const { script } = item;
-        if (!script.id) return;
-        const current = overrides.get(script.id) ?? script.defaultCommand ?? "";
-        const input = await vscode.window.showInputBox({
-          prompt: `Override command for "${script.label}"`,
-          value: current,
-          validateInput: (v) => (v.trim() ? null : "Command cannot be empty"),
-        });
-        if (input === undefined) return;
-        await overrides.set(script.id, input.trim());
+        if (!item.script.id) return;
+        await pinned.set(item.script.id, "1");
         provider.refresh();
       }
     ),
 
     vscode.commands.registerCommand(
-      "runway.clearOverride",
+      "runway.unpinFromStatusBar",
       async (item: ScriptItem) => {
         if (!item.script.id) return;
-        await overrides.clear(item.script.id);
+        await pinned.clear(item.script.id);
         provider.refresh();
       }
     ),
 
+    vscode.commands.registerCommand("runway.newCompound", async () => {
+      const name = await vscode.window.showInputBox({
+        prompt: "Compound name",
+        placeHolder: "e.g. Start everything",
+        validateInput: (v) => (v.trim() ? null : "Name cannot be empty"),
+      });
+      if (!name) return;
+      const steps = await editCompoundSteps(name.trim(), [], await provider.allRunnable(), scriptTitle);
+      if (!steps?.length) return;
+      await compounds.set(`compound:${Date.now().toString(36)}`, { name: name.trim(), steps });
+      provider.refresh();
+    }),
+
     vscode.commands.registerCommand(
-      "runway.setLabel",
+      "runway.editCompound",
       async (item: ScriptItem) => {
-        const { script } = item;
-        if (!script.id) return;
-        const current = labels.get(script.id) ?? "";
-        const input = await vscode.window.showInputBox({
-          prompt: `Display name for "${script.label}"`,
-          value: current,
-          placeHolder: "e.g. Build & Install",
-        });
-        if (input === undefined) return;
-        input.trim() === ""
-          ? await labels.clear(script.id)
-          : await labels.set(script.id, input.trim());
+        const id = item.script.id!;
+        const compound = compounds.get(id);
+        if (!compound) return;
+        const steps = await editCompoundSteps(compound.name, compound.steps, await provider.allRunnable(), scriptTitle);
+        if (!steps) return;
+        await compounds.set(id, { ...compound, steps });
         provider.refresh();
       }
     ),
 
     vscode.commands.registerCommand(
-      "runway.clearLabel",
+      "runway.renameCompound",
       async (item: ScriptItem) => {
-        if (!item.script.id) return;
-        await labels.clear(item.script.id);
+        const id = item.script.id!;
+        const compound = compounds.get(id);
+        if (!compound) return;
+        const name = await vscode.window.showInputBox({
+          prompt: "Compound name",
+          value: compound.name,
+          validateInput: (v) => (v.trim() ? null : "Name cannot be empty"),
+        });
+        if (!name) return;
+        await compounds.set(id, { ...compound, name: name.trim() });
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.deleteCompound",
+      async (item: ScriptItem) => {
+        const id = item.script.id!;
+        compoundRuns.stop(id);
+        await compounds.clear(id);
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.runAgain",
+      async (item: ScriptItem) => {
+        const record = item.script.record;
+        if (!record) return;
+        const script = (await provider.allRunnable()).find((s) => s.id === record.scriptId);
+        if (!script) {
+          vscode.window.showWarningMessage(`"${record.label}" is no longer available — was its source removed?`);
+          return;
+        }
+        // Re-run the exact command from history (arguments included)
+        runs.run(
+          script,
+          record.command,
+          rerunPolicy(script.id!),
+          resolveEnv(script, sources, scriptEnv),
+          runBackend(script.id!),
+          resolveShell(script, sources, shells)
+        );
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.showRunTerminal",
+      (item: ScriptItem) => {
+        const record = item.script.record;
+        if (!record) return;
+        const terminal = runTerminals.get(recordKey(record.scriptId, record.startedAt));
+        if (terminal) terminal.show();
+        else vscode.window.showInformationMessage(`The terminal for this run of "${record.label}" has been closed.`);
+      }
+    ),
+
+    vscode.commands.registerCommand("runway.clearHistory", async () => {
+      await history.clear();
+      provider.refresh();
+    }),
+
+    vscode.commands.registerCommand(
+      "runway.runWithArgs",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const args = await pickArguments(script, argPresets);
+        // Presets may have been named or forgotten inside the picker
+        provider.refresh();
+        if (args === undefined) return;
+        await rememberArgs(argPresets, script.id, args);
+        startScript(script, undefined, args);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.deletePreset",
+      async (item: ScriptItem) => {
+        const { parent, label } = item.script;
+        if (!parent?.id) return;
+        await argPresets.set(parent.id, (argPresets.get(parent.id) ?? []).filter((p) => p.name !== label));
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.runNewInstance",
+      (item: ScriptItem) => {
+        if (item.script.id) startScript(item.script, "newInstance");
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setRerunPolicy",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const current = rerunPolicies.get(script.id);
+        const choices: (vscode.QuickPickItem & { value?: RerunPolicy })[] = [
+          { label: "Restart", description: "Stop the running instance and start again", value: "restart" },
+          { label: "Open Another Instance", description: "Start a second terminal alongside the first", value: "newInstance" },
+          { label: "Don't Re-run", description: "Focus the running terminal instead", value: "refuse" },
+          { label: "Use Default", description: "Follow the runway.rerunPolicy setting" },
+        ];
+        for (const c of choices) if (c.value === current) c.label = `$(check) ${c.label}`;
+        const picked = await vscode.window.showQuickPick(choices, {
+          placeHolder: `When "${script.label}" is already running and you run it again…`,
+        });
+        if (!picked) return;
+        picked.value
+          ? await rerunPolicies.set(script.id, picked.value)
+          : await rerunPolicies.clear(script.id);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setRunBackend",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const current = runBackends.get(script.id);
+        const choices: (vscode.QuickPickItem & { value?: RunBackend })[] = [
+          { label: "Shell Terminal", description: "Run in an interactive shell; exit codes need shell integration", value: "terminal" },
+          { label: "Process", description: "Run as a child process with exact exit codes and PIDs", value: "process" },
+          { label: "Use Default", description: "Follow the runway.runBackend setting" },
+        ];
+        for (const c of choices) if (c.value === current) c.label = `$(check) ${c.label}`;
+        const picked = await vscode.window.showQuickPick(choices, {
+          placeHolder: `Run "${script.label}" in…`,
+        });
+        if (!picked) return;
+        picked.value
+          ? await runBackends.set(script.id, picked.value)
+          : await runBackends.clear(script.id);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setShell",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        // Script rows get their own shell, group headers set it for the whole source
+        const src = script.id ? undefined : sources.getAll().find((s) => s.path === script.sourcePath);
+        if (!script.id && !src) return;
+        const current = script.id ? shells.get(script.id) : src!.shell;
+        type Item = vscode.QuickPickItem & { value?: string; custom?: boolean };
+        const profiles = Object.entries(terminalProfiles())
+          .filter((entry): entry is [string, TerminalProfile] => !!entry[1])
+          .map(([name, profile]) => ({ name, shell: profileShell(profile) }))
+          .filter((p) => p.shell);
+        const customCurrent = current && !profiles.some((p) => p.name === current) ? current : undefined;
+        const choices: Item[] = [
+          {
+            label: "Use Default",
+            description: script.id ? "Follow the source, then the runway.shell setting" : "Follow the runway.shell setting",
+          },
+          { label: "Terminal Profiles", kind: vscode.QuickPickItemKind.Separator },
+          ...profiles.map((p) => ({
+            label: p.name,
+            description: [p.shell!.path, ...(p.shell!.args ?? [])].join(" "),
+            value: p.name,
+          })),
+          { label: "", kind: vscode.QuickPickItemKind.Separator },
+          {
+            label: "Custom Shell...",
+            description: customCurrent ?? "A shell path with arguments",
+            custom: true,
+          },
+        ];
+        for (const c of choices) {
+          if (c.kind === vscode.QuickPickItemKind.Separator) continue;
+          if (c.custom ? customCurrent : c.value === current) c.label = `$(check) ${c.label}`;
+        }
+        const picked = await vscode.window.showQuickPick(choices, {
+          placeHolder: `Run ${script.id ? `"${script.label}"` : `scripts from ${script.label}`} with…`,
+        });
+        if (!picked) return;
+        let value = picked.value;
+        if (picked.custom) {
+          value = (await vscode.window.showInputBox({
+            prompt: "Shell path and arguments",
+            placeHolder: "e.g. /bin/bash --login or fish",
+            value: current,
+          }))?.trim();
+          if (!value) return;
+        }
+        if (src) {
+          await sources.update(src.path, { shell: value });
+        } else if (value) {
+          await shells.set(script.id!, value);
+        } else {
+          await shells.clear(script.id!);
+        }
+        // Paths in default commands are quoted for the shell
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.watch",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const spec = await editWatch(script, watches.get(script.id));
+        if (!spec) return;
+        await watches.set(script.id, spec);
+        scriptWatcher.sync();
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.unwatch",
+      async (item: ScriptItem) => {
+        if (!item.script.id) return;
+        await watches.clear(item.script.id);
+        scriptWatcher.sync();
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.editDependencies",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const deps = await editDependencies(
+          script, dependencies.get(script.id) ?? [], await provider.allRunnable(), scriptTitle,
+          dependencies.personal(), usualPorts
+        );
+        if (!deps) return;
+        deps.length ? await dependencies.set(script.id, deps) : await dependencies.clear(script.id);
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.openInBrowser",
+      (item: ScriptItem) => {
+        const server = item.script.server;
+        if (server) vscode.env.openExternal(vscode.Uri.parse(server.url));
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.copyUrl",
+      (item: ScriptItem) => {
+        const server = item.script.server;
+        if (server) vscode.env.clipboard.writeText(server.url);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setProblemMatchers",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const current = problemMatchers.get(script.id) ?? [];
+        type Item = vscode.QuickPickItem & { custom?: boolean };
+        const names = [...new Set([...COMMON_PROBLEM_MATCHERS, ...current])];
+        const items: Item[] = [
+          ...names.map((name): Item => ({ label: name, picked: current.includes(name) })),
+          { label: "$(add) Other...", description: "Enter a problem matcher name", custom: true },
+        ];
+        const picked = await vscode.window.showQuickPick(items, {
+          canPickMany: true,
+          placeHolder: `Problem matchers for "${script.label}" when run as a task`,
+        });
+        if (!picked) return;
+        const selected = picked.filter((p) => !p.custom).map((p) => p.label);
+        if (picked.some((p) => p.custom)) {
+          const input = await vscode.window.showInputBox({
+            prompt: "Problem matcher names, comma-separated (e.g. a matcher contributed by another extension)",
+            placeHolder: "$myMatcher",
+          });
+          if (input) selected.push(...input.split(",").map((n) => n.trim()).filter(Boolean));
+        }
+        selected.length
+          ? await problemMatchers.set(script.id, [...new Set(selected)])
+          : await problemMatchers.clear(script.id);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.editEnv",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const spec = await editEnvSpec(`Environment for "${script.label}"`, scriptEnv.get(script.id) ?? {}, script.cwd ?? "");
+        if (!spec) return;
+        spec.env || spec.envFiles
+          ? await scriptEnv.set(script.id, spec)
+          : await scriptEnv.clear(script.id);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.editSourceEnv",
+      async (item: ScriptItem) => {
+        const src = sources.getAll().find((s) => s.path === item.script.sourcePath);
+        if (!src) return;
+        const spec = await editEnvSpec(`Environment for ${displayPath(src.path)}`, src, sourceDir(src));
+        if (!spec) return;
+        await sources.update(src.path, spec);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.newScript",
+      (item?: ScriptItem) => newScript(sources, provider, watcherManager, updateMessage, item)
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.configureDirectory",
+      async (item?: ScriptItem) => {
+        const dirs = sources.getAll().filter((s) => s.type === "directory");
+        let src = dirs.find((s) => s.path === item?.script.sourcePath);
+        if (!src) {
+          if (!dirs.length) {
+            vscode.window.showInformationMessage("No directory sources added yet.");
+            return;
+          }
+          src = dirs.length === 1 ? dirs[0] : (await vscode.window.showQuickPick(
+            dirs.map((s) => ({ label: displayPath(s.path), description: s.recursive ? "recursive" : undefined, src: s })),
+            { placeHolder: "Select a directory source" }
+          ))?.src;
+          if (!src) return;
+        }
+        await sources.update(src.path, await editScanOptions(src));
+        watcherManager.sync();
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setInterpreter",
+      async (item?: ScriptItem) => {
+        const candidates = sources.getAll().filter((s) => !taskRunnerFor(s.type));
+        let src = candidates.find((s) => s.path === item?.script.sourcePath);
+        if (!src) {
+          if (!candidates.length) {
+            vscode.window.showInformationMessage("No sources added yet.");
+            return;
+          }
+          src = candidates.length === 1 ? candidates[0] : (await vscode.window.showQuickPick(
+            candidates.map((s) => ({ label: displayPath(s.path), description: s.type, src: s })),
+            { placeHolder: "Select a source" }
+          ))?.src;
+          if (!src) return;
+        }
+
+        type Toolchain = "python" | "node";
+        type Item = vscode.QuickPickItem & { toolchain?: Toolchain; value?: string; custom?: boolean };
+        const current = (setting: string | undefined, value: string | undefined) => (setting === value ? "current" : undefined);
+        const ext = path.extname(src.path);
+        const hasPython = src.type === "directory" || (src.type === "file" && EXT_TO_TYPE.get(ext)?.kind === "python");
+        const hasNode = src.type !== "file" || ["javascript", "typescript"].includes(EXT_TO_TYPE.get(ext)?.kind ?? "");
+        if (!hasPython && !hasNode) {
+          vscode.window.showInformationMessage("Runway only detects interpreters for Python and Node scripts.");
+          return;
+        }
+        const items: Item[] = [];
+        if (hasPython) {
+          const custom = src.python && src.python !== SYSTEM_INTERPRETER ? src.python : undefined;
+          items.push(
+            { label: "Python", kind: vscode.QuickPickItemKind.Separator },
+            { label: "Auto-detect", description: current(src.python, undefined), detail: "Nearest .venv or venv, else uv run or poetry run when there's a lockfile", toolchain: "python" },
+            { label: "System Python", description: current(src.python, SYSTEM_INTERPRETER), detail: "python3 from PATH, or the script's shebang", toolchain: "python", value: SYSTEM_INTERPRETER },
+            { label: "Custom Interpreter...", description: custom && "current", detail: custom, toolchain: "python", custom: true },
+          );
+        }
+        if (hasNode) {
+          const custom = src.node && src.node !== SYSTEM_INTERPRETER ? src.node : undefined;
+          items.push(
+            { label: "Node", kind: vscode.QuickPickItemKind.Separator },
+            { label: "Auto-detect", description: current(src.node, undefined), detail: "Version from the nearest .nvmrc, .node-version or package.json volta field", toolchain: "node" },
+            { label: "System Node", description: current(src.node, SYSTEM_INTERPRETER), detail: "Whatever node is on PATH", toolchain: "node", value: SYSTEM_INTERPRETER },
+            { label: "Pin Version...", description: custom && "current", detail: custom && `Node ${custom}`, toolchain: "node", custom: true },
+          );
+        }
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: `Interpreter for ${displayPath(src.path)}` });
+        if (!picked?.toolchain) return;
+        let value = picked.value;
+        if (picked.custom) {
+          value = (await vscode.window.showInputBox(picked.toolchain === "python"
+            ? {
+                prompt: "Python interpreter path, or a command that runs Python",
+                placeHolder: "e.g. /opt/python3.12/bin/python or conda run -n myenv python",
+                value: src.python === SYSTEM_INTERPRETER ? undefined : src.python,
+              }
+            : {
+                prompt: "Node version, activated through volta, fnm or nvm",
+                placeHolder: "e.g. 20 or lts/iron",
+                value: src.node === SYSTEM_INTERPRETER ? undefined : src.node,
+              }
+          ))?.trim();
+          if (!value) return;
+        }
+        await sources.update(src.path, { [picked.toolchain]: value });
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.selectEnvProfile",
+      async (item: ScriptItem) => {
+        const src = sources.getAll().find((s) => s.path === item.script.sourcePath);
+        if (!src) return;
+        const editButton = { iconPath: new vscode.ThemeIcon("edit"), tooltip: "Edit Profile..." };
+        const deleteButton = { iconPath: new vscode.ThemeIcon("trash"), tooltip: "Delete Profile" };
+        type Item = vscode.QuickPickItem & { profile?: string; create?: boolean };
+        const profiles = src.profiles ?? {};
+        const items: Item[] = [
+          { label: src.activeProfile ? "None" : "$(check) None", description: "Base environment only" },
+          ...Object.keys(profiles).map((name): Item => ({
+            label: name === src.activeProfile ? `$(check) ${name}` : name,
+            description: [...Object.keys(profiles[name].env ?? {}), ...(profiles[name].envFiles ?? [])].join(", "),
+            profile: name,
+            buttons: [editButton, deleteButton],
+          })),
+          { label: "$(add) New Profile...", create: true },
+        ];
+
+        const qp = vscode.window.createQuickPick<Item>();
+        qp.title = `Environment Profile for ${displayPath(src.path)}`;
+        qp.items = items;
+        const result = await new Promise<{ item?: Item; button?: vscode.QuickInputButton }>((resolve) => {
+          qp.onDidAccept(() => resolve({ item: qp.selectedItems[0] }));
+          qp.onDidTriggerItemButton(({ item, button }) => resolve({ item, button }));
+          qp.onDidHide(() => resolve({}));
+          qp.show();
+        });
+        qp.dispose();
+        const { item: picked, button } = result;
+        if (!picked) return;
+
+        if (button === deleteButton) {
+          const { [picked.profile!]: _removed, ...rest } = profiles;
+          await sources.update(src.path, {
+            profiles: rest,
+            activeProfile: src.activeProfile === picked.profile ? undefined : src.activeProfile,
+          });
+        } else if (button === editButton) {
+          const spec = await editEnvSpec(`Profile "${picked.profile}"`, profiles[picked.profile!], sourceDir(src));
+          if (!spec) return;
+          await sources.update(src.path, { profiles: { ...profiles, [picked.profile!]: spec } });
+        } else if (picked.create) {
+          const name = await vscode.window.showInputBox({
+            prompt: "Profile name",
+            placeHolder: "e.g. staging",
+            validateInput: (v) => (!v.trim() ? "Name cannot be empty" : profiles[v.trim()] ? "A profile with that name exists" : null),
+          });
+          if (!name) return;
+          const spec = await editEnvSpec(`Profile "${name.trim()}"`, {}, sourceDir(src));
+          if (!spec) return;
+          await sources.update(src.path, {
+            profiles: { ...profiles, [name.trim()]: spec },
+            activeProfile: name.trim(),
+          });
+        } else {
+          await sources.update(src.path, { activeProfile: picked.profile });
+        }
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setOverride",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const current = overrides.get(script.id) ?? script.defaultCommand ?? "";
+        const input = await vscode.window.showInputBox({
+          prompt: `Override command for "${script.label}"`,
+          value: current,
+          validateInput: (v) => (v.trim() ? null : "Command cannot be empty"),
+        });
+        if (input === undefined) return;
+        await overrides.set(script.id, input.trim());
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.clearOverride",
+      async (item: ScriptItem) => {
+        if (!item.script.id) return;
+        await overrides.clear(item.script.id);
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.setLabel",
+      async (item: ScriptItem) => {
+        const { script } = item;
+        if (!script.id) return;
+        const current = labels.get(script.id) ?? "";
+        const input = await vscode.window.showInputBox({
+          prompt: `Display name for "${script.label}"`,
+          value: current,
+          placeHolder: "e.g. Build & Install",
+        });
+        if (input === undefined) return;
+        input.trim() === ""
+          ? await labels.clear(script.id)
+          : await labels.set(script.id, input.trim());
+        provider.refresh();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "runway.clearLabel",
+      async (item: ScriptItem) => {
+        if (!item.script.id) return;
+        await labels.clear(item.script.id);
         provider.refresh();
       }
     ),
@@ -1213,6 +3533,9 @@ export function activate(context: vscode.ExtensionContext) {
       async (item: ScriptItem) => {
         if (!item.script.id) return;
         await favorites.clear(item.script.id);
+        await pinned.clear(item.script.id);
+        // A team favorite can only be hidden personally, not removed
+        if (favorites.get(item.script.id) === "1") await favorites.set(item.script.id, "0");
         provider.refresh();
       }
     ),
@@ -1229,7 +3552,8 @@ export function activate(context: vscode.ExtensionContext) {
       "runway.copyRelativePath",
       (item: ScriptItem) => {
         const p = item.script.filePath ?? item.script.cwd;
-        if (p) vscode.env.clipboard.writeText(displayPath(p));
+        // Relative to the owning folder, without the multi-root display prefix
+        if (p) vscode.env.clipboard.writeText(vscode.workspace.asRelativePath(p, false));
       }
     ),
 
@@ -1246,6 +3570,12 @@ export function activate(context: vscode.ExtensionContext) {
       async (item: ScriptItem) => {
         const src = item.script.sourcePath ?? item.script.filePath;
         if (!src) return;
+        if (sources.isShared(src)) {
+          vscode.window.showInformationMessage(
+            `${displayPath(src)} is declared in the team config. Edit ${displayPath(teamConfig.filePath!)} to remove it.`
+          );
+          return;
+        }
         await sources.remove(src);
         watcherManager.sync();
         provider.refresh();
@@ -1261,11 +3591,15 @@ export function activate(context: vscode.ExtensionContext) {
           vscode.window.showInformationMessage("No sources added yet.");
           return;
         }
-        const choices = all.map((s) => ({
+        const choices = all.filter((s) => !sources.isShared(s.path)).map((s) => ({
           label: `$(trash) ${displayPath(s.path)}`,
           description: s.type,
           path: s.path,
         }));
+        if (!choices.length) {
+          vscode.window.showInformationMessage("All sources come from the team config.");
+          return;
+        }
         const picked = await vscode.window.showQuickPick(choices, {
           placeHolder: "Select a source to remove",
           canPickMany: true,
@@ -1278,12 +3612,85 @@ export function activate(context: vscode.ExtensionContext) {
       }
     ),
 
+    vscode.commands.registerCommand("runway.saveTeamConfig", async () => {
+      const existing = teamConfig.filePath;
+      if (existing) {
+        const ok = await vscode.window.showWarningMessage(
+          `Overwrite ${displayPath(existing)} with your current setup?`,
+          { modal: true },
+          "Save"
+        );
+        if (ok !== "Save") return;
+      }
+
+      const all = sources.getAll();
+      let includeEnv = false;
+      if (all.some((s) => s.env || s.envFiles || s.profiles)) {
+        const choice = await vscode.window.showWarningMessage(
+          "Include source environments in the team config?",
+          {
+            modal: true,
+            detail: "Variables, .env file paths and environment profiles would be committed with the file. Leave them out if they hold secrets.",
+          },
+          "Include Environments",
+          "Leave Out"
+        );
+        if (!choice) return;
+        includeEnv = choice === "Include Environments";
+      }
+
+      // Team values first so personal entries win on conflicts
+      const favs = { ...teamConfig.favorites(), ...favorites.personal() };
+      try {
+        const { file, skipped } = await teamConfig.save({
+          sources: all,
+          overrides: { ...teamConfig.overrides(), ...overrides.personal() },
+          labels: { ...teamConfig.labels(), ...labels.personal() },
+          favorites: Object.keys(favs).filter((id) => favs[id] === "1"),
+        }, includeEnv);
+        const note = skipped ? ` (${skipped} entries outside the workspace were skipped)` : "";
+        const open = await vscode.window.showInformationMessage(`Saved team config to ${displayPath(file)}${note}.`, "Open");
+        if (open) await vscode.commands.executeCommand("vscode.open", vscode.Uri.file(file));
+      } catch (err) {
+        vscode.window.showErrorMessage(`Could not save team config: ${(err as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand("runway.importTeamConfig", async () => {
+      if (!teamConfig.filePath) {
+        vscode.window.showInformationMessage(`No team config found. Add ${TeamConfig.FILES.join(" or ")} to the workspace root.`);
+        return;
+      }
+      let imported = await sources.importShared();
+      const copy = async (store: ScriptStore, values: Record<string, string>) => {
+        const personal = store.personal();
+        for (const [id, value] of Object.entries(values)) {
+          if (personal[id] !== undefined) continue;
+          await store.set(id, value);
+          imported++;
+        }
+      };
+      await copy(overrides, teamConfig.overrides());
+      await copy(labels, teamConfig.labels());
+      await copy(favorites, teamConfig.favorites());
+      watcherManager.sync();
+      provider.refresh();
+      updateMessage();
+      vscode.window.showInformationMessage(
+        imported ? `Imported ${imported} entries from ${displayPath(teamConfig.filePath)}.` : "Everything in the team config is already in your setup."
+      );
+    }),
+
     vscode.commands.registerCommand("runway.add", async () => {
       const choice = await vscode.window.showQuickPick(
         [
           { label: "$(package)  Add package.json", value: "packageJson" },
+          { label: "$(repo)  Add Workspace (monorepo)", value: "workspace" },
+          { label: "$(checklist)  Add Task File (justfile, Taskfile, deno.json, composer.json)", value: "taskFile" },
           { label: "$(folder-opened)  Add Directory", value: "directory" },
           { label: "$(file-code)  Add Script File", value: "file" },
+          { label: "$(new-file)  New Script...", value: "newScript" },
+          { label: "$(run-all)  New Compound...", value: "compound" },
           { label: "$(trash)  Remove Sources...", value: "manage" },
         ],
         { placeHolder: "What do you want to do?" }
@@ -1294,9 +3701,21 @@ export function activate(context: vscode.ExtensionContext) {
         await vscode.commands.executeCommand("runway.manageSources");
         return;
       }
+      if (choice.value === "compound") {
+        await vscode.commands.executeCommand("runway.newCompound");
+        return;
+      }
+      if (choice.value === "newScript") {
+        await newScript(sources, provider, watcherManager, updateMessage);
+        return;
+      }
 
       if (choice.value === "packageJson") {
         await addPackageJson(sources, provider, watcherManager, updateMessage);
+      } else if (choice.value === "workspace") {
+        await addWorkspace(sources, provider, watcherManager, updateMessage);
+      } else if (choice.value === "taskFile") {
+        await addTaskFile(sources, provider, watcherManager, updateMessage);
       } else if (choice.value === "directory") {
         await addDirectory(sources, provider, watcherManager, updateMessage);
       } else {
@@ -1309,109 +3728,2555 @@ export function activate(context: vscode.ExtensionContext) {
 export function deactivate() {}
 
 // ---------------------------------------------------------------------------
-// Terminal runner
+// Shells  (terminal profiles and per-shell quoting)
 // ---------------------------------------------------------------------------
 
-function openInSystemTerminal(cwd: string, command: string) {
-  const escaped = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-  const fullCmd = cwd ? `cd "${escaped(cwd)}" && ${command}` : command;
+/** Quoting rules a shell follows. */
+type ShellKind = "posix" | "fish" | "pwsh" | "cmd";
 
-  if (process.platform === "darwin") {
-    const app = (vscode.workspace.getConfiguration("runway").get<string>("systemTerminalApp") ?? "Terminal").trim();
-    const appLower = app.toLowerCase();
+/** The shell a script runs in.  Without a path, terminals open with the default terminal profile. */
+interface ShellSpec {
+  path?: string;
+  args?: string[];
+  kind: ShellKind;
+}
+
+function shellKind(shellPath: string): ShellKind {
+  const name = path.basename(shellPath).toLowerCase().replace(/\.exe$/, "");
+  return name === "fish" ? "fish"
+    : name === "pwsh" || name === "powershell" ? "pwsh"
+    : name === "cmd" ? "cmd"
+    : "posix";
+}
+
+/** Quotes one argument for a shell; plain words and paths are left as they are. */
+function quoteArg(arg: string, kind: ShellKind): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  switch (kind) {
+    case "posix": return `'${arg.replace(/'/g, `'\\''`)}'`;
+    case "fish":  return `'${arg.replace(/[\\']/g, "\\$&")}'`;
+    case "pwsh":  return `'${arg.replace(/'/g, "''")}'`;
+    case "cmd":   return `"${arg.replace(/"/g, '""')}"`;
+  }
+}
+
+/** PowerShell only runs a quoted program through the call operator. */
+function commandLine(program: string, kind: ShellKind): string {
+  return kind === "pwsh" && /^['"]/.test(program) ? `& ${program}` : program;
+}
+
+/** Splits `bash --login` or `"C:\Program Files\Git\bin\bash.exe" -l` into words. */
+function splitWords(line: string): string[] {
+  return (line.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((w) => w.replace(/^(["'])(.*)\1$/, "$2"));
+}
+
+/** A terminal.integrated.profiles entry (null hides a built-in profile). */
+interface TerminalProfile {
+  path?: string | string[];
+  args?: string | string[];
+  source?: "PowerShell" | "Git Bash";
+}
+
+function terminalProfiles(): Record<string, TerminalProfile | null> {
+  const platform = process.platform === "win32" ? "windows" : process.platform === "darwin" ? "osx" : "linux";
+  return vscode.workspace.getConfiguration("terminal.integrated").get(`profiles.${platform}`) ?? {};
+}
+
+function profileShell(profile: TerminalProfile): ShellSpec | undefined {
+  const candidates = profile.source === "PowerShell" ? ["pwsh.exe", "powershell.exe"]
+    : profile.source === "Git Bash" ? [path.join(process.env.ProgramFiles ?? "C:\\Program Files", "Git", "bin", "bash.exe")]
+    : typeof profile.path === "string" ? [profile.path]
+    : profile.path ?? [];
+  const shellPath = candidates.find((p) => path.isAbsolute(p) ? fs.existsSync(p) : onPath(p.replace(/\.exe$/i, "")));
+  if (!shellPath) return undefined;
+  const args = typeof profile.args === "string" ? splitWords(profile.args) : profile.args;
+  return { path: shellPath, args, kind: shellKind(shellPath) };
+}
+
+/**
+ * A shell setting: empty for the default terminal profile, the name of a
+ * terminal profile, or a shell path with arguments (`bash --login`).
+ */
+function shellFor(setting: string | undefined): ShellSpec {
+  if (!setting?.trim()) return { kind: shellKind(userShell()) };
+  const profile = terminalProfiles()[setting];
+  const fromProfile = profile ? profileShell(profile) : undefined;
+  if (fromProfile) return fromProfile;
+  const [shellPath, ...args] = splitWords(setting);
+  return { path: shellPath, args, kind: shellKind(shellPath) };
+}
+
+/** The script's own shell, else its source's, else runway.shell. */
+function resolveShell(script: Pick<Script, "id" | "sourcePath">, sources: SourceStore, shells: ScriptStore): ShellSpec {
+  return shellFor(
+    (script.id ? shells.get(script.id) : undefined)
+      ?? sources.getAll().find((s) => s.path === script.sourcePath)?.shell
+      ?? vscode.workspace.getConfiguration("runway").get<string>("shell")
+  );
+}
+
+/** Arguments that make a shell run the command that follows them, then exit. */
+function commandArgs(shell: ShellSpec): string[] {
+  const flags = shell.kind === "cmd" ? ["/d", "/s", "/c"] : shell.kind === "pwsh" ? ["-Command"] : ["-c"];
+  return [...(shell.args ?? []), ...flags];
+}
+
+/** Whether a terminal was created with this shell. */
+function sameShell(terminal: vscode.Terminal, shell: ShellSpec): boolean {
+  const pty = ptyOf(terminal);
+  const options = terminal.creationOptions as vscode.TerminalOptions;
+  const current = pty ? pty.shell : { path: options.shellPath, args: options.shellArgs };
+  const args = (a: string[] | string | undefined) => (typeof a === "string" ? splitWords(a) : a ?? []).join("\0");
+  return current.path === shell.path && args(current.args) === args(shell.args);
+}
+
+// ---------------------------------------------------------------------------
+// Terminal runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens the command in a terminal outside VS Code.  The command is written
+ * for the script's shell, which needn't be the one the system terminal runs
+ * (sh or bash, cmd on Windows), so any other shell is started with the
+ * command as its argument.
+ */
+function openInSystemTerminal(cwd: string, command: string, env: Record<string, string> | undefined, shell: ShellSpec) {
+  const outer: ShellKind = process.platform === "win32" ? "cmd" : "posix";
+  if (shell.kind !== outer) {
+    command = [shell.path ?? userShell(), ...commandArgs(shell), command].map((arg) => quoteArg(arg, outer)).join(" ");
+  }
+  const escaped = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const entries = Object.entries(env ?? {});
+  if (entries.length) {
+    command = process.platform === "win32"
+      ? `${entries.map(([k, v]) => `set "${k}=${v}"`).join(" && ")} && ${command}`
+      : `export ${entries.map(([k, v]) => `${k}='${v.replace(/'/g, "'\\''")}'`).join(" ")} && ${command}`;
+  }
+  const fullCmd = cwd ? `cd "${escaped(cwd)}" && ${command}` : command;
+
+  const template = vscode.workspace.getConfiguration("runway").get<string>("systemTerminalCommand")?.trim();
+  if (template) {
+    launchTerminal(fillTerminalTemplate(template, cwd, command), cwd);
+    return;
+  }
+
+  if (process.platform === "darwin") {
+    const app = (vscode.workspace.getConfiguration("runway").get<string>("systemTerminalApp") ?? "Terminal").trim();
+    const appLower = app.toLowerCase();
+
+    if (appLower === "warp") {
+      // Write a self-deleting temp script and open it in Warp
+      const tmpFile = `/tmp/runway_${Date.now()}.sh`;
+      fs.writeFileSync(tmpFile, `#!/bin/zsh\n${fullCmd}\nrm -- "$0"\n`, { mode: 0o755 });
+      exec(`open -a Warp "${tmpFile}"`);
+
+    } else if (appLower === "iterm" || appLower === "iterm2") {
+      const safeCmd = fullCmd.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+      const script = `tell application "iTerm2"
+  create window with default profile command "bash -c \\"${safeCmd}; exec bash\\""
+  activate
+end tell`;
+      exec(`osascript -e '${script.replace(/'/g, "'\\''")}'`);
+
+    } else {
+      // Terminal.app (default) and any other app via AppleScript do script
+      const safeCmd = fullCmd.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+      const script = `tell application "${app}"
+  do script "${safeCmd}"
+  activate
+end tell`;
+      exec(`osascript -e '${script.replace(/'/g, "'\\''")}'`);
+    }
+
+  } else if (process.platform === "win32") {
+    exec(`start cmd /K "${escaped(fullCmd)}"`);
+
+  } else {
+    const app = vscode.workspace.getConfiguration("runway").get<string>("linuxTerminalApp") ?? "auto";
+    const chosen = app === "auto" ? AUTO_LINUX_TERMINALS.find((t) => onPath(t)) : app;
+    const preset = chosen ? LINUX_TERMINALS[chosen] : undefined;
+    if (!preset) {
+      vscode.window.showErrorMessage(
+        app === "auto"
+          ? "Could not find a terminal emulator. Set runway.linuxTerminalApp, or runway.systemTerminalCommand for one Runway doesn't know."
+          : `Unknown terminal "${app}" in runway.linuxTerminalApp.`
+      );
+      return;
+    }
+    // Keep a shell open in the window after the script ends
+    launchTerminal(preset(quoteArg(`${fullCmd}; exec bash`, "posix")), cwd);
+  }
+}
+
+/** How to open each runway.linuxTerminalApp preset, given a quoted `bash -c` argument. */
+const LINUX_TERMINALS: Record<string, (script: string) => string> = {
+  "gnome-terminal": (c) => `gnome-terminal -- bash -c ${c}`,
+  konsole: (c) => `konsole -e bash -c ${c}`,
+  xterm: (c) => `xterm -e bash -c ${c}`,
+  kitty: (c) => `kitty bash -c ${c}`,
+  alacritty: (c) => `alacritty -e bash -c ${c}`,
+  wezterm: (c) => `wezterm start -- bash -c ${c}`,
+  foot: (c) => `foot bash -c ${c}`,
+  tilix: (c) => `tilix -e ${quoteArg(`bash -c ${c}`, "posix")}`,
+  tmux: (c) => `tmux new-window bash -c ${c}`,
+};
+
+/** Emulators tried by the "auto" preset, in order. */
+const AUTO_LINUX_TERMINALS = ["gnome-terminal", "xterm", "konsole", "kitty", "alacritty", "wezterm", "foot", "tilix"];
+
+/** Fills in runway.systemTerminalCommand's `${cwd}` and `${command}`, quoted for the system shell. */
+function fillTerminalTemplate(template: string, cwd: string, command: string): string {
+  const kind: ShellKind = process.platform === "win32" ? "cmd" : "posix";
+  return template.split("${cwd}").join(quoteArg(cwd, kind)).split("${command}").join(quoteArg(command, kind));
+}
+
+/**
+ * Starts a terminal emulator from the script's folder.  A program that isn't
+ * installed, or that fails right away (tmux without a server), is reported;
+ * emulators that stay attached exit whenever their window closes, so later
+ * exits are ignored.
+ */
+function launchTerminal(line: string, cwd: string) {
+  const program = splitWords(line)[0] ?? "";
+  onPathCache.delete(program); // it may have been installed since
+  if (!(path.isAbsolute(program) ? fs.existsSync(program) : onPath(program))) {
+    vscode.window.showErrorMessage(`Could not open the system terminal: ${program} is not installed or not on PATH.`);
+    return;
+  }
+  const startedAt = Date.now();
+  let stderr = "";
+  const child = spawn(line, { shell: true, cwd: cwd || undefined, detached: true, stdio: ["ignore", "ignore", "pipe"] });
+  child.stderr?.setEncoding("utf8").on("data", (data: string) => { stderr += data; });
+  child.on("error", (err) => vscode.window.showErrorMessage(`Could not open the system terminal: ${err.message}`));
+  child.on("exit", (code) => {
+    if (code && Date.now() - startedAt < 3000) {
+      vscode.window.showErrorMessage(`Could not open the system terminal: ${stderr.trim() || `${program} exited with code ${code}`}`);
+    }
+  });
+  child.unref();
+}
+
+type RerunPolicy = "restart" | "newInstance" | "refuse";
+
+/** How a script's command is executed: in a shell terminal, or as a child process behind a pseudoterminal. */
+type RunBackend = "terminal" | "process";
+
+/** The shell of the default terminal profile. */
+function userShell(): string {
+  return vscode.env.shell
+    || (process.platform === "win32" ? process.env.ComSpec ?? "cmd.exe" : process.env.SHELL || "/bin/sh");
+}
+
+/** Terminal name for a script — includes the group so same-named scripts stay distinct. */
+function terminalName(script: Script): string {
+  return script.group ? `${script.group} › ${script.label}` : script.label;
+}
+
+/** The process runner behind a Runway terminal, if it uses the process backend. */
+function ptyOf(terminal: vscode.Terminal): ProcessPty | undefined {
+  const pty = (terminal.creationOptions as vscode.ExtensionTerminalOptions).pty;
+  return pty instanceof ProcessPty ? pty : undefined;
+}
+
+/** Whether a terminal was created with exactly this environment. */
+function sameEnv(terminal: vscode.Terminal, env: Record<string, string> | undefined): boolean {
+  const current = ptyOf(terminal)?.env ?? (terminal.creationOptions as vscode.TerminalOptions).env ?? {};
+  const wanted = env ?? {};
+  const keys = new Set([...Object.keys(current), ...Object.keys(wanted)]);
+  return [...keys].every((k) => current[k] === wanted[k]);
+}
+
+function runningUri(id: string): vscode.Uri {
+  return vscode.Uri.parse(`runway-running://${encodeURIComponent(id)}`);
+}
+
+/** One execution of a script's command in a Runway terminal. */
+interface ScriptRun {
+  scriptId: string;
+  terminal: vscode.Terminal;
+  command: string;
+  cwd?: string;
+  startedAt: number;
+  /** process id of the command, for runs on the process backend */
+  pid?: number;
+  /** resolves with the exit code once the run ends (undefined when unknown or interrupted) */
+  finished: Promise<number | undefined>;
+}
+
+interface RunEnd {
+  run: ScriptRun;
+  exitCode: number | undefined;
+}
+
+/** A running instance of a script, as listed for the status bar. */
+interface ActiveRun {
+  scriptId: string;
+  startedAt: number;
+}
+
+interface RunOutput {
+  run: ScriptRun;
+  /** raw terminal data, including escape sequences */
+  data: string;
+}
+
+/** Every process's parent, from `ps` (or CIM on Windows). */
+function processParents(): Promise<Map<number, number>> {
+  const command = process.platform === "win32"
+    ? `powershell -NoProfile -Command "Get-CimInstance Win32_Process | ForEach-Object { \\"$($_.ProcessId) $($_.ParentProcessId)\\" }"`
+    : "ps -A -o pid= -o ppid=";
+  return new Promise((resolve) => {
+    exec(command, { maxBuffer: 16 * 1024 * 1024 }, (err, stdout) => {
+      const parents = new Map<number, number>();
+      if (!err) {
+        for (const line of stdout.split(/\r?\n/)) {
+          const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+          if (pid && !Number.isNaN(ppid)) parents.set(pid, ppid);
+        }
+      }
+      resolve(parents);
+    });
+  });
+}
+
+/** Process ids of every descendant of a process, parents before children. */
+async function descendantPids(pid: number): Promise<number[]> {
+  const parents = await processParents();
+  const found: number[] = [];
+  let frontier = [pid];
+  while (frontier.length) {
+    const next = [...parents].filter(([, ppid]) => frontier.includes(ppid)).map(([child]) => child);
+    found.push(...next);
+    frontier = next;
+  }
+  return found;
+}
+
+function signalPids(pids: number[], signal: NodeJS.Signals) {
+  for (const pid of pids) {
+    try { process.kill(pid, signal); } catch { /* already gone */ }
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs commands as child processes behind a pseudoterminal, so exit codes
+ * and PIDs come straight from the process rather than from shell
+ * integration.  The terminal stays open between runs; start() replaces
+ * whatever is running once it has exited.  Without a real tty, line editing of typed input is
+ * emulated here and programs are asked to keep their colours via
+ * FORCE_COLOR / CLICOLOR_FORCE.
+ */
+class ProcessPty implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  readonly onDidWrite = this.writeEmitter.event;
+  private readonly _onDidOutput = new vscode.EventEmitter<string>();
+  /** Output of the current process, as written to the terminal. */
+  readonly onDidOutput = this._onDidOutput.event;
+  private readonly _onDidExit = new vscode.EventEmitter<number>();
+  /** Fires with the exit code when the current process exits (128 + n when killed by signal n). */
+  readonly onDidExit = this._onDidExit.event;
+
+  private child: ChildProcess | undefined;
+  /** counts start() calls, so a start still waiting on the old process can tell it was superseded */
+  private starts = 0;
+  private closed = false;
+  /** writes made before VS Code opened the terminal */
+  private pending: string[] | undefined = [];
+  private dimensions: vscode.TerminalDimensions | undefined;
+  /** typed input not yet sent (sent to stdin on Enter) */
+  private line = "";
+
+  constructor(readonly env: Record<string, string> | undefined, readonly shell: ShellSpec) {}
+
+  open(dimensions: vscode.TerminalDimensions | undefined) {
+    this.dimensions = dimensions;
+    const pending = this.pending ?? [];
+    this.pending = undefined;
+    pending.forEach((data) => this.writeEmitter.fire(data));
+  }
+
+  close() {
+    this.signal("SIGHUP");
+    this.child = undefined;
+    this.closed = true;
+    this.writeEmitter.dispose();
+    this._onDidOutput.dispose();
+    this._onDidExit.dispose();
+  }
+
+  setDimensions(dimensions: vscode.TerminalDimensions) {
+    this.dimensions = dimensions;
+  }
+
+  handleInput(data: string) {
+    if (!this.child) return;
+    switch (data) {
+      case "\x03": // Ctrl+C
+        this.line = "";
+        this.write("^C\r\n");
+        this.signal("SIGINT");
+        return;
+      case "\x1c": // Ctrl+\
+        this.signal("SIGQUIT");
+        return;
+      case "\x04": // Ctrl+D
+        this.child.stdin?.end();
+        return;
+    }
+    for (const ch of data) {
+      if (ch === "\r") {
+        this.write("\r\n");
+        this.child.stdin?.write(this.line + "\n");
+        this.line = "";
+      } else if (ch === "\x7f") {
+        if (this.line) this.write("\b \b");
+        this.line = this.line.slice(0, -1);
+      } else if (ch >= " ") {
+        this.line += ch;
+        this.write(ch);
+      }
+    }
+  }
+
+  get running(): boolean {
+    return this.child !== undefined;
+  }
+
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  /**
+   * Starts a command, first killing the one running and waiting for it to
+   * exit (SIGKILL after 3 s) so the two never overlap.  Resolves to the new
+   * process id, or undefined if the terminal closed or another start() took
+   * over while waiting.
+   */
+  async start(command: string, cwd: string | undefined): Promise<number | undefined> {
+    const previous = this.child;
+    // Detach the old process first, so its exit doesn't end the new run
+    this.child = undefined;
+    this.line = "";
+    const generation = ++this.starts;
+    if (previous) await this.terminate(previous);
+    if (this.closed || generation !== this.starts) return undefined;
+    const columns = this.dimensions ? { COLUMNS: String(this.dimensions.columns), LINES: String(this.dimensions.rows) } : {};
+    // cmd /s strips the outer quotes, so wrap the command the way Node's `shell: true` does
+    const line = this.shell.kind === "cmd" ? `"${command}"` : command;
+    const child = spawn(this.shell.path ?? userShell(), [...commandArgs(this.shell), line], {
+      cwd,
+      env: { ...process.env, FORCE_COLOR: "1", CLICOLOR_FORCE: "1", ...columns, ...this.env },
+      // Own process group, so signals reach everything the command starts
+      detached: process.platform !== "win32",
+      windowsVerbatimArguments: this.shell.kind === "cmd",
+    });
+    this.child = child;
+    this.write(`\x1b[2m$ ${command}\x1b[0m\r\n`);
+
+    const output = (data: string) => {
+      const text = data.replace(/\r?\n/g, "\r\n");
+      this.write(text);
+      if (this.child === child) this._onDidOutput.fire(text);
+    };
+    child.stdout?.setEncoding("utf8").on("data", output);
+    child.stderr?.setEncoding("utf8").on("data", output);
+    child.on("error", (err) => {
+      this.write(`\x1b[31m${err.message}\x1b[0m\r\n`);
+      this.exited(child, 127);
+    });
+    child.on("exit", (code, signal) => {
+      this.exited(child, code ?? 128 + (signal ? os.constants.signals[signal] ?? 0 : 0));
+    });
+    return child.pid;
+  }
+
+  /** Sends a signal to the running process and its children. */
+  signal(signal: NodeJS.Signals) {
+    if (this.child) this.kill(this.child, signal);
+  }
+
+  /** Sends SIGTERM to a process group and waits for it to exit, sending SIGKILL after 3 s. */
+  private async terminate(child: ChildProcess) {
+    if (!child.pid || child.exitCode !== null || child.signalCode !== null) return;
+    const exited = new Promise<boolean>((resolve) => child.once("exit", () => resolve(true)));
+    this.kill(child, "SIGTERM");
+    if (await Promise.race([exited, sleep(3000).then(() => false)])) return;
+    this.kill(child, "SIGKILL");
+    await Promise.race([exited, sleep(1000)]);
+  }
+
+  private kill(child: ChildProcess, signal: NodeJS.Signals) {
+    if (!child.pid || child.exitCode !== null) return;
+    try {
+      if (process.platform === "win32") child.kill(signal);
+      else process.kill(-child.pid, signal);
+    } catch {
+      child.kill(signal);
+    }
+  }
+
+  private exited(child: ChildProcess, code: number) {
+    // Ignore processes already replaced by a restart
+    if (this.child !== child) return;
+    this.child = undefined;
+    const colour = code === 0 ? "2" : "31";
+    this.write(`\r\n\x1b[${colour}m[process ${child.pid} exited with code ${code}]\x1b[0m\r\n`);
+    this._onDidExit.fire(code);
+  }
+
+  private write(data: string) {
+    if (this.pending) this.pending.push(data);
+    else this.writeEmitter.fire(data);
+  }
+}
+
+/**
+ * Owns every terminal Runway creates and tracks which ones are running,
+ * keyed by the stable `Script.id` so that identically named scripts in
+ * different groups never share state.  A script may have several terminals
+ * (instances) when its re-run policy is "newInstance".
+ */
+class RunManager implements vscode.Disposable {
+  /** Runway terminal → id of the script it belongs to */
+  private readonly owners = new Map<vscode.Terminal, string>();
+  /** terminal → command waiting for shell integration to activate */
+  private readonly pendingCommands = new Map<vscode.Terminal, string>();
+  /** output still being read from a run's shell execution */
+  private readonly outputStreams = new WeakMap<ScriptRun, Promise<void>>();
+  /** terminal → the TerminalShellExecution we started (to match end events) */
+  private readonly trackedExecutions = new Map<vscode.Terminal, vscode.TerminalShellExecution>();
+  /** terminals whose command is currently running */
+  private readonly active = new Set<vscode.Terminal>();
+  /** terminal → its latest run and the resolver that ends it */
+  private readonly currentRuns = new Map<vscode.Terminal, { run: ScriptRun; end: (code: number | undefined) => void }>();
+  /** execution → the run it belongs to, so late end events resolve the right run */
+  private readonly executionRuns = new Map<vscode.TerminalShellExecution, ScriptRun>();
+  /** terminals with a stop sequence in progress */
+  private readonly stopping = new Set<vscode.Terminal>();
+  /** running "runway" tasks (Tasks: Run Task, dependsOn, preLaunchTask) → script id and start time */
+  private readonly taskRuns = new Map<vscode.TaskExecution, ActiveRun>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** Fires with the script id whenever that script's running state changes. */
+  readonly onDidChange = this._onDidChange.event;
+  private readonly _onDidStartRun = new vscode.EventEmitter<ScriptRun>();
+  readonly onDidStartRun = this._onDidStartRun.event;
+  private readonly _onDidEndRun = new vscode.EventEmitter<RunEnd>();
+  readonly onDidEndRun = this._onDidEndRun.event;
+  private readonly _onDidOutput = new vscode.EventEmitter<RunOutput>();
+  /** Output of process-backend runs and of runs started through shell integration (not the sendText fallback). */
+  readonly onDidOutput = this._onDidOutput.event;
+
+  constructor() {
+    this.disposables.push(
+      this._onDidChange,
+      this._onDidStartRun,
+      this._onDidEndRun,
+      this._onDidOutput,
+
+      vscode.window.onDidCloseTerminal((t) => {
+        const id = this.owners.get(t);
+        if (id === undefined) return;
+        this.pendingCommands.delete(t);
+        this.trackedExecutions.delete(t);
+        this.endRun(t, undefined);
+        this.owners.delete(t);
+        this.markStopped(t, id);
+      }),
+
+      // Shell integration activated — run the pending command via executeCommand
+      // so that onDidEndTerminalShellExecution fires when it exits.
+      vscode.window.onDidChangeTerminalShellIntegration(({ terminal, shellIntegration }) => {
+        const command = this.pendingCommands.get(terminal);
+        if (command) {
+          this.pendingCommands.delete(terminal);
+          // Small delay to let the shell prompt fully initialize — without this,
+          // executeCommand can silently fail if the prompt isn't ready yet.
+          setTimeout(() => this.track(terminal, shellIntegration.executeCommand(command)), 200);
+        }
+      }),
+
+      // Fired when a shell-integration-tracked command ends (Ctrl+C, crash, natural exit).
+      vscode.window.onDidEndTerminalShellExecution((event) => {
+        const run = this.executionRuns.get(event.execution);
+        this.executionRuns.delete(event.execution);
+        if (run && this.currentRuns.get(event.terminal)?.run === run) {
+          this.endRun(event.terminal, event.exitCode);
+        }
+        if (this.trackedExecutions.get(event.terminal) === event.execution) {
+          this.trackedExecutions.delete(event.terminal);
+          this.markStopped(event.terminal);
+        }
+      }),
+
+      // Scripts started as tasks run in terminals VS Code owns, so they are
+      // tracked by task execution instead
+      vscode.tasks.onDidStartTaskProcess(({ execution }) => {
+        const id = scriptIdOfTask(execution.task);
+        if (id === undefined) return;
+        this.taskRuns.set(execution, { scriptId: id, startedAt: Date.now() });
+        this._onDidChange.fire(id);
+      }),
+      vscode.tasks.onDidEndTaskProcess(({ execution }) => {
+        const run = this.taskRuns.get(execution);
+        if (!run) return;
+        this.taskRuns.delete(execution);
+        this._onDidChange.fire(run.scriptId);
+      })
+    );
+  }
+
+  isRunning(id: string): boolean {
+    return this.runningCount(id) > 0;
+  }
+
+  /** Number of running instances of a script (terminals and tasks). */
+  runningCount(id: string): number {
+    const tasks = [...this.taskRuns.values()].filter((r) => r.scriptId === id).length;
+    return this.terminals(id).filter((t) => this.active.has(t)).length + tasks;
+  }
+
+  /** Every running instance, in terminals and as tasks. */
+  activeRuns(): ActiveRun[] {
+    const inTerminals = [...this.active].flatMap((t) => {
+      const current = this.currentRuns.get(t);
+      return current ? [{ scriptId: current.run.scriptId, startedAt: current.run.startedAt }] : [];
+    });
+    return [...inTerminals, ...this.taskRuns.values()];
+  }
+
+  /** The run in a script's primary terminal, while it is running. */
+  currentRun(id: string): ScriptRun | undefined {
+    const t = this.primaryTerminal(id);
+    return t && this.active.has(t) ? this.currentRuns.get(t)?.run : undefined;
+  }
+
+  /** Open terminals belonging to a script, oldest first. */
+  terminals(id: string): vscode.Terminal[] {
+    return [...this.owners].filter(([, owner]) => owner === id).map(([t]) => t);
+  }
+
+  /** The terminal to focus for a script — a running instance if there is one. */
+  primaryTerminal(id: string): vscode.Terminal | undefined {
+    const all = this.terminals(id);
+    return all.find((t) => this.active.has(t)) ?? all[0];
+  }
+
+  /**
+   * Runs a script's command, honouring the re-run policy when it is already
+   * running.  Returns the new run, or undefined if the policy refused it.
+   */
+  run(
+    script: Script,
+    command: string,
+    policy: RerunPolicy,
+    env?: Record<string, string>,
+    backend: RunBackend = "terminal",
+    shell: ShellSpec = shellFor(undefined)
+  ): ScriptRun | undefined {
+    const id = script.id!;
+    // A terminal's environment, backend and shell are fixed at creation, so
+    // one created differently can't be reused — close it and start fresh.
+    const fits = (t: vscode.Terminal) =>
+      sameEnv(t, env) && (ptyOf(t) ? "process" : "terminal") === backend && sameShell(t, shell);
+    for (const t of this.terminals(id)) {
+      if (!this.active.has(t) && !fits(t)) t.dispose();
+    }
+    const instances = this.terminals(id).filter(fits);
+    const idle = instances.find((t) => !this.active.has(t));
+
+    if (!this.isRunning(id)) {
+      return instances[0]
+        ? this.execute(instances[0], script, command)
+        : this.create(script, command, this.terminals(id).length + 1, env, backend, shell);
+    }
+
+    switch (policy) {
+      case "refuse": {
+        this.primaryTerminal(id)?.show();
+        vscode.window.showInformationMessage(`"${terminalName(script)}" is already running.`);
+        return undefined;
+      }
+      case "newInstance":
+        return idle
+          ? this.execute(idle, script, command)
+          : this.create(script, command, this.terminals(id).length + 1, env, backend, shell);
+      case "restart": {
+        const running = this.primaryTerminal(id);
+        // Running only as a task (Tasks: Run Task, dependsOn) — end it and start in a terminal
+        if (!running || !this.active.has(running)) {
+          for (const [execution, run] of this.taskRuns) if (run.scriptId === id) execution.terminate();
+        }
+        if (running && fits(running)) return this.execute(running, script, command);
+        running?.dispose();
+        return this.create(script, command, this.terminals(id).length + 1, env, backend, shell);
+      }
+    }
+  }
+
+  /** Sends Ctrl+C to every running instance of a script and ends its tasks. */
+  stop(id: string) {
+    for (const t of this.terminals(id)) this.requestStop(t);
+    for (const [execution, run] of this.taskRuns) if (run.scriptId === id) execution.terminate();
+  }
+
+  /** Stops every running script (terminals and tasks). */
+  stopAll() {
+    for (const id of new Set(this.activeRuns().map((r) => r.scriptId))) this.stop(id);
+  }
+
+  /** Stops one run, if it is still the terminal's current run. */
+  stopRun(run: ScriptRun) {
+    if (this.currentRuns.get(run.terminal)?.run === run) this.requestStop(run.terminal);
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private requestStop(t: vscode.Terminal) {
+    this.stopTerminal(t).catch((err) =>
+      vscode.window.showErrorMessage(`Could not stop "${t.name}": ${(err as Error).message}`)
+    );
+  }
+
+  /**
+   * Interrupts a terminal's command, then — if it is still running after
+   * the grace period — sends SIGTERM and finally SIGKILL to its whole
+   * process tree.  The terminal stays marked as running until the command
+   * has actually ended.
+   */
+  private async stopTerminal(t: vscode.Terminal) {
+    if (!this.active.has(t) || this.stopping.has(t)) return;
+    t.show();
+    // Not started yet — just drop it
+    if (this.pendingCommands.delete(t)) {
+      this.endRun(t, undefined);
+      this.markStopped(t);
+      return;
+    }
+
+    this.stopping.add(t);
+    try {
+      const grace = vscode.workspace.getConfiguration("runway").get<number>("stopGracePeriod", 3000);
+      const pty = ptyOf(t);
+      if (pty) pty.signal("SIGINT");
+      else t.sendText("\x03");
+
+      for (const signal of ["SIGTERM", "SIGKILL"] as const) {
+        if (await this.waitForStop(t, grace)) return;
+        signalPids(await this.commandPids(t), signal);
+      }
+      if (await this.waitForStop(t, grace)) return;
+      // Everything was killed, but nothing reported the end (no shell integration)
+      this.trackedExecutions.delete(t);
+      this.endRun(t, undefined);
+      this.markStopped(t);
+    } finally {
+      this.stopping.delete(t);
+    }
+  }
+
+  /** The processes of a terminal's command: the pty's child and its tree, or everything under the shell. */
+  private async commandPids(t: vscode.Terminal): Promise<number[]> {
+    const pty = ptyOf(t);
+    const root = pty ? pty.pid : await t.processId;
+    if (!root) return [];
+    const descendants = await descendantPids(root);
+    return pty ? [root, ...descendants] : descendants;
+  }
+
+  /**
+   * Resolves true once the terminal's command has ended, or false after
+   * `ms`.  Shell-integration and pty runs report their own end; for runs
+   * sent as plain text, the command is over when the shell has no children
+   * (checked once a second, since listing processes is not free).
+   */
+  private async waitForStop(t: vscode.Terminal, ms: number): Promise<boolean> {
+    const deadline = Date.now() + ms;
+    let nextCheck = 0;
+    do {
+      if (!this.active.has(t)) return true;
+      if (!ptyOf(t) && !this.trackedExecutions.has(t) && Date.now() >= nextCheck) {
+        nextCheck = Date.now() + 1000;
+        if (!(await this.commandPids(t)).length) {
+          this.endRun(t, undefined);
+          this.markStopped(t);
+          return true;
+        }
+      }
+      await sleep(200);
+    } while (Date.now() < deadline);
+    return !this.active.has(t);
+  }
+
+  private create(
+    script: Script,
+    command: string,
+    instance: number,
+    env: Record<string, string> | undefined,
+    backend: RunBackend,
+    shell: ShellSpec
+  ): ScriptRun {
+    const name = instance > 1 ? `${terminalName(script)} (${instance})` : terminalName(script);
+    if (backend === "process") {
+      const pty = new ProcessPty(env, shell);
+      const terminal = vscode.window.createTerminal({ name, pty });
+      this.owners.set(terminal, script.id!);
+      pty.onDidOutput((data) => {
+        const current = this.currentRuns.get(terminal);
+        if (current) this._onDidOutput.fire({ run: current.run, data });
+      });
+      pty.onDidExit((code) => {
+        this.endRun(terminal, code);
+        this.markStopped(terminal);
+      });
+      return this.execute(terminal, script, command);
+    }
+
+    const terminal = vscode.window.createTerminal({
+      name,
+      cwd: script.cwd,
+      shellPath: shell.path,
+      shellArgs: shell.args,
+      env,
+    });
+    this.owners.set(terminal, script.id!);
+    terminal.show();
+    const run = this.beginRun(terminal, script, command);
+    // Queue the command — onDidChangeTerminalShellIntegration will execute it.
+    // Fall back to sendText after 3 s if shell integration never activates.
+    this.pendingCommands.set(terminal, command);
+    this.markRunning(terminal);
+    setTimeout(() => {
+      if (this.pendingCommands.get(terminal) === command) {
+        this.pendingCommands.delete(terminal);
+        terminal.sendText(command);
+      }
+    }, 3000);
+    return run;
+  }
+
+  private execute(terminal: vscode.Terminal, script: Script, command: string): ScriptRun {
+    terminal.show();
+    const run = this.beginRun(terminal, script, command);
+    const pty = ptyOf(terminal);
+    if (pty) {
+      this.markRunning(terminal);
+      pty.start(command, script.cwd).then((pid) => { run.pid = pid; });
+    } else if (terminal.shellIntegration) {
+      // Shell integration already active — interrupt anything running then re-execute
+      terminal.sendText("\x03");
+      setTimeout(() => this.track(terminal, terminal.shellIntegration!.executeCommand(command)), 100);
+    } else {
+      // No shell integration on this terminal — queue for when it activates,
+      // with a fallback to sendText after 3 s.
+      terminal.sendText("\x03");
+      this.pendingCommands.set(terminal, command);
+      setTimeout(() => {
+        if (this.pendingCommands.get(terminal) === command) {
+          this.pendingCommands.delete(terminal);
+          terminal.sendText(command);
+        }
+        this.markRunning(terminal);
+      }, 3000);
+    }
+    return run;
+  }
+
+  /** Associates a started shell execution with the terminal's current run. */
+  private track(terminal: vscode.Terminal, execution: vscode.TerminalShellExecution) {
+    this.trackedExecutions.set(terminal, execution);
+    const current = this.currentRuns.get(terminal);
+    if (current) {
+      this.executionRuns.set(execution, current.run);
+      this.outputStreams.set(current.run, this.readOutput(execution, current.run));
+    }
+    this.markRunning(terminal);
+  }
+
+  /** Resolves once all of a run's output has gone out as onDidOutput events. */
+  outputDrained(run: ScriptRun): Promise<void> {
+    return this.outputStreams.get(run) ?? Promise.resolve();
+  }
+
+  /** Streams an execution's output as onDidOutput events until it ends. */
+  private async readOutput(execution: vscode.TerminalShellExecution, run: ScriptRun) {
+    try {
+      for await (const data of execution.read()) this._onDidOutput.fire({ run, data });
+    } catch { /* terminal closed mid-stream */ }
+  }
+
+  /** Starts a new run in a terminal, ending (as interrupted) whatever run it replaces. */
+  private beginRun(terminal: vscode.Terminal, script: Script, command: string): ScriptRun {
+    this.endRun(terminal, undefined);
+    let end!: (code: number | undefined) => void;
+    const run: ScriptRun = {
+      scriptId: script.id!,
+      terminal,
+      command,
+      cwd: script.cwd,
+      startedAt: Date.now(),
+      finished: new Promise((resolve) => { end = resolve; }),
+    };
+    this.currentRuns.set(terminal, {
+      run,
+      end: (code) => {
+        end(code);
+        this._onDidEndRun.fire({ run, exitCode: code });
+      },
+    });
+    this._onDidStartRun.fire(run);
+    return run;
+  }
+
+  private endRun(terminal: vscode.Terminal, exitCode: number | undefined) {
+    const current = this.currentRuns.get(terminal);
+    if (!current) return;
+    this.currentRuns.delete(terminal);
+    current.end(exitCode);
+  }
+
+  private markRunning(terminal: vscode.Terminal) {
+    const id = this.owners.get(terminal);
+    if (id === undefined) return;
+    this.active.add(terminal);
+    this._onDidChange.fire(id);
+  }
+
+  private markStopped(terminal: vscode.Terminal, id = this.owners.get(terminal)) {
+    this.active.delete(terminal);
+    if (id !== undefined) this._onDidChange.fire(id);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Task provider  (Runway scripts as VS Code tasks of type "runway")
+// ---------------------------------------------------------------------------
+
+interface RunwayTaskDefinition extends vscode.TaskDefinition {
+  /** script id with its path relative to the task's workspace folder, e.g. `npm:package.json:dev` */
+  id: string;
+}
+
+/** Problem matchers offered by Set Problem Matchers (any other name can be typed in). */
+const COMMON_PROBLEM_MATCHERS = [
+  "$tsc", "$tsc-watch", "$eslint-stylish", "$eslint-compact", "$gcc", "$python", "$msCompile", "$go", "$jshint", "$lessc",
+];
+
+/** The Runway script id behind a task, or undefined for other task types. */
+function scriptIdOfTask(task: vscode.Task): string | undefined {
+  if (task.definition.type !== "runway" || typeof task.definition.id !== "string") return undefined;
+  const root = (typeof task.scope === "object" ? task.scope.uri.fsPath : undefined)
+    ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  return root ? fromSharedId(task.definition.id, root) : task.definition.id;
+}
+
+class RunwayTaskProvider implements vscode.TaskProvider {
+  /** script kinds exposed as tasks */
+  private static readonly KINDS: ScriptKind[] = ["npmScript", "task", "makeTarget", "fileScript"];
+
+  constructor(
+    private readonly provider: ScriptProvider,
+    private readonly sources: SourceStore,
+    private readonly overrides: ScriptStore,
+    private readonly labels: ScriptStore,
+    private readonly scriptEnv: ScriptStore<EnvSpec>,
+    private readonly problemMatchers: ScriptStore<string[]>,
+    private readonly shells: ScriptStore
+  ) {}
+
+  async provideTasks(): Promise<vscode.Task[]> {
+    return (await this.provider.allRunnable())
+      .filter((s) => RunwayTaskProvider.KINDS.includes(s.kind))
+      .map((s) => this.toTask(s));
+  }
+
+  async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+    const id = scriptIdOfTask(task);
+    if (!id) return undefined;
+    const script = (await this.provider.allRunnable()).find((s) => s.id === id);
+    // tasks.json must get back the definition it declared
+    return script ? this.toTask(script, task.definition as RunwayTaskDefinition, task.scope) : undefined;
+  }
+
+  private toTask(
+    script: Script,
+    definition?: RunwayTaskDefinition,
+    scope?: vscode.WorkspaceFolder | vscode.TaskScope
+  ): vscode.Task {
+    const id = script.id!;
+    const folder = workspaceFolderFor(script.cwd ?? script.filePath ?? "");
+    scope ??= folder ?? vscode.TaskScope.Workspace;
+    definition ??= { type: "runway", id: (folder && toSharedId(id, folder.uri.fsPath)) ?? id };
+
+    const command = this.overrides.get(id) ?? script.defaultCommand ?? "";
+    // Without an explicit shell, tasks use the default terminal profile like Runway terminals do
+    const shell = resolveShell(script, this.sources, this.shells);
+    const task = new vscode.Task(
+      definition,
+      scope,
+      this.labels.get(id) ?? terminalName(script),
+      "runway",
+      new vscode.ShellExecution(command, {
+        cwd: script.cwd,
+        env: resolveEnv(script, this.sources, this.scriptEnv),
+        ...(shell.path && { executable: shell.path, shellArgs: commandArgs(shell) }),
+      }),
+      (this.problemMatchers.get(id) ?? []).filter((m) => !RUNWAY_ONLY_MATCHERS.includes(m))
+    );
+    task.detail = command;
+    return task;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Output diagnostics  (script output → Problems panel)
+// ---------------------------------------------------------------------------
+
+type ProblemSeverity = "error" | "warning" | "info";
+
+interface OutputProblem {
+  /** as printed — absolute, or relative to the run's cwd */
+  file: string;
+  /** one-based, as printed by compilers */
+  line: number;
+  column?: number;
+  severity: ProblemSeverity;
+  message: string;
+  code?: string;
+}
+
+/** Parses one line of output (per run, so parsers can keep state across lines). */
+type LineParser = (line: string) => OutputProblem | undefined;
+
+/** A user-defined matcher from the runway.outputMatchers setting. */
+interface OutputMatcherConfig {
+  /** with named groups `file`, `line` and `message`, optionally `column`, `severity` and `code` */
+  regexp: string;
+  /** used when the pattern has no `severity` group */
+  severity?: ProblemSeverity;
+}
+
+function toSeverity(text: string | undefined, fallback: ProblemSeverity = "error"): ProblemSeverity {
+  const t = text?.toLowerCase() ?? "";
+  if (t.startsWith("warn")) return "warning";
+  if (t.startsWith("info") || t === "note") return "info";
+  return t ? "error" : fallback;
+}
+
+/** `src/a.ts(12,5): error TS2322: …` and tsc --pretty `src/a.ts:12:5 - error TS2322: …` */
+function tscParser(): LineParser {
+  return (line) => {
+    const m = line.match(/^\s*(.+?)\((\d+),(\d+)\):\s+(error|warning|info)\s+(TS\d+)\s*:\s*(.*)$/)
+      ?? line.match(/^\s*(.+?):(\d+):(\d+)\s+-\s+(error|warning|info)\s+(TS\d+):\s*(.*)$/);
+    if (!m) return undefined;
+    return { file: m[1], line: +m[2], column: +m[3], severity: toSeverity(m[4]), code: m[5], message: m[6] };
+  };
+}
+
+/** eslint's default formatter: a file path line followed by indented `line:col  severity  message  rule` rows. */
+function eslintStylishParser(): LineParser {
+  let file: string | undefined;
+  return (line) => {
+    if (/^\S/.test(line) && !/^\u2716|^\d+ problems?/.test(line)) {
+      file = line.trim();
+      return undefined;
+    }
+    const m = line.match(/^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/);
+    if (!m || !file) return undefined;
+    return { file, line: +m[1], column: +m[2], severity: toSeverity(m[3]), message: m[4], code: m[5] };
+  };
+}
+
+/** `src/a.js: line 3, col 7, Error - Unexpected console statement. (no-console)` */
+function eslintCompactParser(): LineParser {
+  return (line) => {
+    const m = line.match(/^(.+?): line (\d+), col (\d+), (Error|Warning|Info) - (.+?)(?: \((\S+)\))?$/);
+    if (!m) return undefined;
+    return { file: m[1], line: +m[2], column: +m[3], severity: toSeverity(m[4]), message: m[5], code: m[6] };
+  };
+}
+
+/** gcc, clang, go, rustc-short and friends: `file:line[:col]: [severity:] message` */
+function gccParser(): LineParser {
+  return (line) => {
+    const m = line.match(/^\s*([^\s:][^:]*?):(\d+):(?:(\d+):)?\s+(?:(fatal error|error|warning|note|info):\s+)?(.+)$/);
+    if (!m || /^[a-z]+$/i.test(m[1])) return undefined; // "Error:2: …", "http://…"
+    return { file: m[1], line: +m[2], column: m[3] ? +m[3] : undefined, severity: toSeverity(m[4]), message: m[5] };
+  };
+}
+
+/** Python tracebacks: reported at the innermost `File "…", line N` frame, with the exception line as message. */
+function pythonParser(): LineParser {
+  let frame: { file: string; line: number } | undefined;
+  return (line) => {
+    const f = line.match(/^\s+File "(.+?)", line (\d+)/);
+    if (f) {
+      // Keep the innermost frame that isn't inside an installed package
+      if (!frame || !/[\\/](site|dist)-packages[\\/]|^</.test(f[1])) frame = { file: f[1], line: +f[2] };
+      return undefined;
+    }
+    if (!frame) return undefined;
+    const e = line.match(/^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Exit|Interrupt))(?::\s*(.*))?$/);
+    if (!e) return undefined;
+    const problem: OutputProblem = {
+      file: frame.file,
+      line: frame.line,
+      severity: e[1].endsWith("Warning") ? "warning" : "error",
+      message: e[2] ? `${e[1]}: ${e[2]}` : e[1],
+      code: e[1],
+    };
+    frame = undefined;
+    return problem;
+  };
+}
+
+/** Built-in parsers by problem-matcher name (names shared with VS Code's matchers where they exist). */
+const OUTPUT_PARSERS: Record<string, () => LineParser> = {
+  "$tsc": tscParser,
+  "$tsc-watch": tscParser,
+  "$eslint-stylish": eslintStylishParser,
+  "$eslint-compact": eslintCompactParser,
+  "$gcc": gccParser,
+  "$go": gccParser,
+  "$python": pythonParser,
+};
+
+/** Matchers that only Runway understands, kept out of VS Code task definitions. */
+const RUNWAY_ONLY_MATCHERS = ["$python"];
+
+function regexParser(config: OutputMatcherConfig): LineParser | undefined {
+  let re: RegExp;
+  try { re = new RegExp(config.regexp); } catch { return undefined; }
+  return (line) => {
+    const g = re.exec(line)?.groups;
+    if (!g?.file || !g.line) return undefined;
+    return {
+      file: g.file,
+      line: +g.line,
+      column: g.column ? +g.column : undefined,
+      severity: toSeverity(g.severity, config.severity),
+      message: g.message ?? line.trim(),
+      code: g.code,
+    };
+  };
+}
+
+/** Removes ANSI colour/cursor sequences and OSC escapes (shell integration markers). */
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b[@-Z\\-_]/g, "");
+}
+
+/**
+ * Feeds the output of Runway-launched runs through output parsers and
+ * publishes the problems found in one DiagnosticCollection per script.
+ * A script's problems are cleared whenever it runs again.
+ */
+class OutputDiagnostics implements vscode.Disposable {
+  private readonly collections = new Map<string, vscode.DiagnosticCollection>();
+  private readonly sessions = new Map<ScriptRun, {
+    parsers: LineParser[];
+    partial: string;
+    problems: Map<string, vscode.Diagnostic[]>;
+    exists: Map<string, string | undefined>;
+    /** the run has exited; its output may still be draining */
+    ended?: boolean;
+  }>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(runs: RunManager, private readonly problemMatchers: ScriptStore<string[]>) {
+    this.disposables.push(
+      runs.onDidStartRun((run) => this.start(run)),
+      runs.onDidOutput(({ run, data }) => this.feed(run, data)),
+      runs.onDidEndRun(async ({ run }) => {
+        const session = this.sessions.get(run);
+        if (!session) return;
+        // The exit is reported before the output stream drains, and the last lines often hold the summary
+        session.ended = true;
+        await runs.outputDrained(run);
+        this.feed(run, "\n"); // flush a trailing line without newline
+        this.sessions.delete(run);
+      })
+    );
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.collections.forEach((c) => c.dispose());
+  }
+
+  private start(run: ScriptRun) {
+    // A previous run still draining would otherwise overwrite this run's problems
+    for (const [other, session] of this.sessions) {
+      if (other.scriptId === run.scriptId && session.ended) this.sessions.delete(other);
+    }
+    this.collections.get(run.scriptId)?.clear();
+    const config = vscode.workspace.getConfiguration("runway");
+    if (!config.get<boolean>("parseOutput", true)) return;
+
+    // The script's problem matchers pick built-in parsers; with none set, all of them run
+    const named = (this.problemMatchers.get(run.scriptId) ?? []).filter((n) => OUTPUT_PARSERS[n]);
+    const parsers = (named.length ? named : Object.keys(OUTPUT_PARSERS))
+      .map((n) => OUTPUT_PARSERS[n])
+      .filter((factory, i, all) => all.indexOf(factory) === i)
+      .map((factory) => factory());
+
+    // User-defined matchers, keyed by the script's path (absolute or workspace-relative), its full id, or "*"
+    const custom = config.get<Record<string, OutputMatcherConfig[]>>("outputMatchers", {});
+    const ids = [run.scriptId];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const shared = toSharedId(run.scriptId, folder.uri.fsPath);
+      if (shared) ids.push(shared);
+    }
+    // "file:scripts/build.sh" → "scripts/build.sh", "npm:package.json:dev" → "package.json:dev"
+    const keys = new Set(["*", ...ids, ...ids.map((id) => id.slice(id.indexOf(":") + 1))]);
+    for (const key of keys) {
+      for (const matcher of custom[key] ?? []) {
+        const parser = regexParser(matcher);
+        if (parser) parsers.push(parser);
+      }
+    }
+
+    this.sessions.set(run, { parsers, partial: "", problems: new Map(), exists: new Map() });
+  }
+
+  private feed(run: ScriptRun, data: string) {
+    const session = this.sessions.get(run);
+    if (!session) return;
+    const lines = (session.partial + stripAnsi(data)).split(/\r?\n/);
+    session.partial = lines.pop() ?? "";
+
+    let changed = false;
+    for (const raw of lines) {
+      const line = raw.replace(/\r/g, "");
+      for (const parse of session.parsers) {
+        const problem = parse(line);
+        if (!problem) continue;
+        const file = this.resolve(session.exists, problem.file, run.cwd);
+        // Only report problems in files that exist — filters out log lines that merely look like errors
+        if (!file) continue;
+        const pos = new vscode.Position(Math.max(problem.line - 1, 0), Math.max((problem.column ?? 1) - 1, 0));
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(pos, problem.column ? pos : pos.translate(0, Number.MAX_SAFE_INTEGER)),
+          problem.message,
+          problem.severity === "error" ? vscode.DiagnosticSeverity.Error
+            : problem.severity === "warning" ? vscode.DiagnosticSeverity.Warning
+              : vscode.DiagnosticSeverity.Information
+        );
+        diagnostic.source = run.terminal.name;
+        if (problem.code) diagnostic.code = problem.code;
+        session.problems.set(file, [...(session.problems.get(file) ?? []), diagnostic]);
+        changed = true;
+        break; // first parser to claim a line wins
+      }
+    }
+    if (changed) this.publish(run.scriptId, session.problems);
+  }
+
+  private resolve(cache: Map<string, string | undefined>, file: string, cwd: string | undefined): string | undefined {
+    if (cache.has(file)) return cache.get(file);
+    const abs = path.isAbsolute(file) ? file : cwd ? path.resolve(cwd, file) : undefined;
+    const found = abs && fs.existsSync(abs) && fs.statSync(abs).isFile() ? abs : undefined;
+    cache.set(file, found);
+    return found;
+  }
+
+  private publish(scriptId: string, problems: Map<string, vscode.Diagnostic[]>) {
+    let collection = this.collections.get(scriptId);
+    if (!collection) {
+      collection = vscode.languages.createDiagnosticCollection(`runway:${scriptId}`);
+      this.collections.set(scriptId, collection);
+    }
+    collection.set([...problems].map(([file, diagnostics]) => [vscode.Uri.file(file), diagnostics]));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Dev server detection  (URLs and ports from script output)
+// ---------------------------------------------------------------------------
+
+interface DetectedServer {
+  url: string;
+  port: number;
+}
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "0.0.0.0", "[::]", "[::1]"];
+
+/**
+ * Finds a server address in one line of output: a URL with an explicit
+ * port (`http://localhost:5173/`), or a "listening on port 3000" style
+ * message, which is assumed to be on localhost.
+ */
+function detectServer(line: string): (DetectedServer & { exact: boolean }) | undefined {
+  const url = line.match(/\bhttps?:\/\/(\[[0-9a-f:]*\]|[\w.-]+):(\d{2,5})(?:\/[^\s'"<>)\]]*)?/i);
+  if (url) {
+    // 0.0.0.0 and [::] mean "all interfaces" — not something a browser can open
+    const href = /^(0\.0\.0\.0|\[::\])$/.test(url[1]) ? url[0].replace(url[1], "localhost") : url[0];
+    return { url: href.replace(/[.,;:]+$/, ""), port: +url[2], exact: LOCAL_HOSTS.includes(url[1].toLowerCase()) };
+  }
+  // Needs the word "port" or a host before the colon, so clock times (10:42:07) don't count
+  const port = line.match(/\b(?:listening|running|started|serving|server|available|ready)\b.*?(?:\bport\b\s*:?\s*|(?:localhost|\d{1,3}(?:\.\d{1,3}){3}|\[[0-9a-f:]*\]):)(\d{2,5})\b/i);
+  if (port) return { url: `http://localhost:${port[1]}`, port: +port[1], exact: false };
+  return undefined;
+}
+
+/** Whether something already accepts connections on a local port (IPv4 or IPv6). */
+function portInUse(port: number): Promise<boolean> {
+  const probe = (host: string) => new Promise<boolean>((resolve) => {
+    const socket = net.connect({ port, host });
+    socket.setTimeout(500);
+    socket.once("connect", () => { socket.destroy(); resolve(true); });
+    socket.once("timeout", () => { socket.destroy(); resolve(false); });
+    socket.once("error", () => resolve(false));
+  });
+  return Promise.all([probe("127.0.0.1"), probe("::1")]).then((r) => r.some(Boolean));
+}
+
+/**
+ * Watches the output of running scripts for the address they serve on.
+ * A detected server lasts until the script stops; the port of a local URL
+ * is remembered as the script's usual port so a clash can be flagged
+ * before the next run.
+ */
+class ServerDetector implements vscode.Disposable {
+  private readonly servers = new Map<string, DetectedServer>();
+  /** run → incomplete last line of output */
+  private readonly partial = new Map<ScriptRun, string>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** Fires with the script id whenever its detected server changes. */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly runs: RunManager, private readonly usualPorts: ScriptStore<number>) {
+    this.disposables.push(
+      this._onDidChange,
+      runs.onDidStartRun((run) => {
+        this.partial.set(run, "");
+        if (this.servers.delete(run.scriptId)) this._onDidChange.fire(run.scriptId);
+      }),
+      runs.onDidOutput(({ run, data }) => this.feed(run, data)),
+      runs.onDidEndRun(({ run }) => this.partial.delete(run)),
+      runs.onDidChange((id) => {
+        if (!runs.isRunning(id) && this.servers.delete(id)) this._onDidChange.fire(id);
+      })
+    );
+  }
+
+  get(id: string): DetectedServer | undefined {
+    return this.servers.get(id);
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private feed(run: ScriptRun, data: string) {
+    const pending = this.partial.get(run);
+    if (pending === undefined) return;
+    const lines = (pending + stripAnsi(data)).split(/\r?\n/);
+    this.partial.set(run, lines.pop() ?? "");
+
+    for (const line of lines) {
+      const found = detectServer(line);
+      // After a bare port or a network address only a local URL, which is
+      // often printed next, replaces it
+      if (!found || (!found.exact && this.servers.has(run.scriptId))) continue;
+      this.servers.set(run.scriptId, { url: found.url, port: found.port });
+      this._onDidChange.fire(run.scriptId);
+      // A local URL is as good as it gets
+      if (found.exact) {
+        this.usualPorts.set(run.scriptId, found.port);
+        this.partial.delete(run);
+        return;
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Environment variables and .env files
+// ---------------------------------------------------------------------------
+
+/** Parses KEY=value lines, ignoring comments and an optional `export` prefix. */
+function parseDotEnv(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const m = line.replace(/^export\s+/, "").match(/^([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!m) continue;
+    let value = m[2];
+    if (value.startsWith('"') && value.lastIndexOf('"') > 0) {
+      value = value.slice(1, value.lastIndexOf('"')).replace(/\\n/g, "\n").replace(/\\"/g, '"');
+    } else if (value.startsWith("'") && value.lastIndexOf("'") > 0) {
+      value = value.slice(1, value.lastIndexOf("'"));
+    } else {
+      value = value.replace(/\s+#.*$/, "").trim();
+    }
+    env[m[1]] = value;
+  }
+  return env;
+}
+
+/** Directory that relative .env paths of a source are resolved against. */
+function sourceDir(src: Source): string {
+  return src.type === "directory" || src.type === "workspace" ? src.path : path.dirname(src.path);
+}
+
+function applyEnvSpec(env: Record<string, string>, spec: EnvSpec | undefined, baseDir: string) {
+  if (!spec) return;
+  for (const file of spec.envFiles ?? []) {
+    try {
+      Object.assign(env, parseDotEnv(fs.readFileSync(path.resolve(baseDir, file), "utf8")));
+    } catch { /* missing .env files are skipped */ }
+  }
+  Object.assign(env, spec.env ?? {});
+}
+
+/**
+ * Effective environment for a script, layered lowest to highest priority:
+ * source → source's active profile → script.  Within each layer .env files
+ * load first and inline variables override them.
+ */
+function resolveEnv(
+  script: Script,
+  sources: SourceStore,
+  scriptEnv: ScriptStore<EnvSpec>
+): Record<string, string> | undefined {
+  const env: Record<string, string> = {};
+  const src = sources.getAll().find((s) => s.path === script.sourcePath);
+  if (src) {
+    applyEnvSpec(env, src, sourceDir(src));
+    if (src.activeProfile) applyEnvSpec(env, src.profiles?.[src.activeProfile], sourceDir(src));
+  }
+  if (script.id) applyEnvSpec(env, scriptEnv.get(script.id), script.cwd ?? "");
+  return Object.keys(env).length ? env : undefined;
+}
+
+/**
+ * Interactive editor for an EnvSpec.  Loops until Save (resolving to the
+ * edited spec) or the picker is dismissed (resolving to undefined).
+ */
+async function editEnvSpec(title: string, initial: EnvSpec, baseDir: string): Promise<EnvSpec | undefined> {
+  const spec: EnvSpec = { env: { ...initial.env }, envFiles: [...(initial.envFiles ?? [])] };
+  type Item = vscode.QuickPickItem & { action: "save" | "addVar" | "addFile" | "var" | "file"; key?: string };
+
+  for (;;) {
+    const items: Item[] = [
+      ...Object.entries(spec.env!).map(([k, v]): Item => ({ label: `${k}=${v}`, description: "variable", action: "var", key: k })),
+      ...spec.envFiles!.map((f): Item => ({ label: `$(file) ${f}`, description: ".env file", action: "file", key: f })),
+      { label: "", kind: vscode.QuickPickItemKind.Separator, action: "save" },
+      { label: "$(add) Add Variable...", action: "addVar" },
+      { label: "$(new-file) Add .env File...", action: "addFile" },
+      { label: "$(check) Save", action: "save" },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      title,
+      placeHolder: "Select a variable or .env file to edit or remove",
+    });
+    if (!picked) return undefined;
+    if (picked.action === "save") break;
+
+    if (picked.action === "addVar" || picked.action === "var") {
+      const current = picked.key !== undefined ? `${picked.key}=${spec.env![picked.key]}` : "";
+      const input = await vscode.window.showInputBox({
+        prompt: picked.key ? "Edit variable (clear to remove)" : "Add variable",
+        value: current,
+        placeHolder: "KEY=value",
+        validateInput: (v) => (!v.trim() || /^[A-Za-z_][A-Za-z0-9_]*=/.test(v.trim()) ? null : "Use the form KEY=value"),
+      });
+      if (input === undefined) continue;
+      if (picked.key !== undefined) delete spec.env![picked.key];
+      const trimmed = input.trim();
+      if (trimmed) {
+        const eq = trimmed.indexOf("=");
+        spec.env![trimmed.slice(0, eq)] = trimmed.slice(eq + 1);
+      }
+    } else if (picked.action === "addFile") {
+      const files = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectMany: true,
+        defaultUri: vscode.Uri.file(baseDir),
+        openLabel: "Add .env File",
+      });
+      for (const uri of files ?? []) {
+        const rel = path.relative(baseDir, uri.fsPath);
+        const entry = rel.startsWith("..") || path.isAbsolute(rel) ? uri.fsPath : rel;
+        if (!spec.envFiles!.includes(entry)) spec.envFiles!.push(entry);
+      }
+    } else if (picked.action === "file") {
+      const remove = await vscode.window.showQuickPick(["Remove"], { placeHolder: picked.key });
+      if (remove) spec.envFiles = spec.envFiles!.filter((f) => f !== picked.key);
+    }
+  }
+
+  return {
+    env: Object.keys(spec.env!).length ? spec.env : undefined,
+    envFiles: spec.envFiles!.length ? spec.envFiles : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Run with arguments
+// ---------------------------------------------------------------------------
+
+/** A remembered argument set; named presets also show as child rows. */
+interface ArgPreset {
+  args: string;
+  name?: string;
+}
+
+const MAX_RECENT_ARGS = 10;
+
+/**
+ * Appends one-off arguments to a script's command.  `npm run` needs `--`
+ * so flags reach the script instead of npm; pnpm, yarn and bun forward
+ * everything after the script name.  Of the task runners, `composer
+ * run-script` and `task` (which exposes them as CLI_ARGS) need `--` too,
+ * while `just` and `deno task` forward them.  Make targets take
+ * `VAR=value` pairs and file scripts take positional arguments, both
+ * appended as-is.
+ */
+function withArgs(script: Script, command: string, args: string): string {
+  const trimmed = args.trim();
+  if (!trimmed) return command;
+  // npm scripts may start with a volta/fnm/nvm prefix, so `npm run` can come later
+  const needsSeparator = script.kind === "npmScript"
+    ? /(^|\s)npm\s+run(-script)?\s/.test(command)
+    : script.kind === "task" && /^(composer\s+run-script|task)\s/.test(command);
+  if (needsSeparator && !/\s--(\s|$)/.test(command)) {
+    return `${command} -- ${trimmed}`;
+  }
+  return `${command} ${trimmed}`;
+}
+
+/** Moves `args` to the front of the recent list (named presets are left alone). */
+async function rememberArgs(presets: ScriptStore<ArgPreset[]>, id: string, args: string) {
+  const saved = presets.get(id) ?? [];
+  if (saved.some((p) => p.name && p.args === args)) return;
+  const named = saved.filter((p) => p.name);
+  const recent = saved.filter((p) => !p.name && p.args !== args);
+  await presets.set(id, [...named, { args }, ...recent].slice(0, named.length + MAX_RECENT_ARGS));
+}
+
+/**
+ * Quick pick of saved presets and recent argument sets for a script, with
+ * free-text entry.  Resolves to the chosen arguments, or undefined if the
+ * picker was dismissed.
+ */
+function pickArguments(script: Script, presets: ScriptStore<ArgPreset[]>): Promise<string | undefined> {
+  type Item = vscode.QuickPickItem & { preset?: ArgPreset; typed?: boolean };
+  const id = script.id!;
+  const saveButton = { iconPath: new vscode.ThemeIcon("bookmark"), tooltip: "Save as Named Preset..." };
+  const deleteButton = { iconPath: new vscode.ThemeIcon("close"), tooltip: "Forget" };
+
+  const qp = vscode.window.createQuickPick<Item>();
+  qp.title = `Run "${script.label}" with Arguments`;
+  qp.placeholder = script.kind === "makeTarget"
+    ? "Type arguments, e.g. ENV=staging"
+    : script.kind === "npmScript"
+      ? "Type arguments, e.g. --watch src/foo"
+      : "Type arguments passed to the script";
+
+  const build = () => {
+    const saved = presets.get(id) ?? [];
+    const typed = qp.value.trim();
+    const named = saved.filter((p) => p.name);
+    const recent = saved.filter((p) => !p.name);
+    const items: Item[] = [];
+    if (typed) {
+      items.push({ label: `$(play) ${typed}`, description: "Run with these arguments", alwaysShow: true, typed: true });
+    }
+    if (named.length) {
+      items.push({ label: "Presets", kind: vscode.QuickPickItemKind.Separator });
+      items.push(...named.map((p) => ({ label: `$(bookmark) ${p.name}`, description: p.args, preset: p, buttons: [deleteButton] })));
+    }
+    if (recent.length) {
+      items.push({ label: "Recent", kind: vscode.QuickPickItemKind.Separator });
+      items.push(...recent.map((p) => ({ label: p.args, preset: p, buttons: [saveButton, deleteButton] })));
+    }
+    qp.items = items;
+  };
+
+  // Naming a preset opens an input box, which hides the quick pick — keep
+  // it alive and show it again afterwards.
+  let naming = false;
+
+  return new Promise((resolve) => {
+    qp.onDidChangeValue(build);
+
+    qp.onDidTriggerItemButton(async ({ item, button }) => {
+      const preset = item.preset!;
+      const saved = presets.get(id) ?? [];
+      if (button === deleteButton) {
+        await presets.set(id, saved.filter((p) => p !== preset && !(p.args === preset.args && p.name === preset.name)));
+        build();
+        return;
+      }
+      naming = true;
+      const name = await vscode.window.showInputBox({
+        prompt: `Name for "${preset.args}"`,
+        placeHolder: "e.g. staging",
+        validateInput: (v) => (v.trim() ? null : "Name cannot be empty"),
+      });
+      naming = false;
+      if (name) {
+        await presets.set(id, [
+          ...saved.filter((p) => p.name !== name.trim() && !(p.args === preset.args && !p.name)),
+          { name: name.trim(), args: preset.args },
+        ]);
+      }
+      build();
+      qp.show();
+    });
+
+    qp.onDidAccept(() => {
+      const picked = qp.selectedItems[0];
+      const args = picked?.preset?.args ?? qp.value.trim();
+      resolve(args || undefined);
+      qp.hide();
+    });
+
+    qp.onDidHide(() => {
+      if (naming) return;
+      resolve(undefined);
+      qp.dispose();
+    });
+
+    build();
+    qp.show();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Status bar
+// ---------------------------------------------------------------------------
+
+/**
+ * A `▶ n` item summarising running scripts (hidden while nothing runs), plus
+ * one button per pinned favorite.  Titles are looked up on refresh(); the
+ * elapsed times in the tooltip tick once a second while anything runs.
+ */
+class RunStatusBar implements vscode.Disposable {
+  private readonly summary = vscode.window.createStatusBarItem("runway.running", vscode.StatusBarAlignment.Left, 50);
+  private readonly pinnedItems = new Map<string, vscode.StatusBarItem>();
+  private titles = new Map<string, string>();
+  private ticker: ReturnType<typeof setInterval> | undefined;
+  /** last value of the runway.anyRunning context key (drives the Stop All title button) */
+  private anyRunning = false;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly runs: RunManager,
+    private readonly compoundRuns: CompoundRunner,
+    private readonly pinned: ScriptStore,
+    private readonly scripts: () => Promise<Script[]>,
+    private readonly title: (script: Script) => string
+  ) {
+    this.summary.name = "Runway: Running Scripts";
+    this.summary.command = "runway.showRunning";
+  }
+
+  /** Every running script with its oldest instance's start time, oldest first. */
+  running(): ActiveRun[] {
+    const oldest = new Map<string, number>();
+    for (const r of [...this.runs.activeRuns(), ...this.compoundRuns.activeRuns()]) {
+      oldest.set(r.scriptId, Math.min(oldest.get(r.scriptId) ?? Infinity, r.startedAt));
+    }
+    return [...oldest].map(([scriptId, startedAt]) => ({ scriptId, startedAt })).sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  titleOf(id: string): string {
+    return this.titles.get(id) ?? this.runs.primaryTerminal(id)?.name ?? id;
+  }
+
+  async refresh() {
+    const scripts = await this.scripts();
+    this.titles = new Map(scripts.map((s) => [s.id!, this.title(s)]));
+
+    const pinnedIds = scripts.filter((s) => this.pinned.get(s.id!) === "1").map((s) => s.id!);
+    for (const [id, item] of this.pinnedItems) {
+      if (pinnedIds.includes(id)) continue;
+      item.dispose();
+      this.pinnedItems.delete(id);
+    }
+    pinnedIds.forEach((id, i) => {
+      if (this.pinnedItems.has(id)) return;
+      // Lower priority than the summary so pins sit to its right, in pin order
+      const item = vscode.window.createStatusBarItem(`runway.pinned.${id}`, vscode.StatusBarAlignment.Left, 49 - i / 1000);
+      item.name = `Runway: ${this.titleOf(id)}`;
+      item.command = { command: "runway.runPinned", title: "Run", arguments: [id] };
+      this.pinnedItems.set(id, item);
+    });
+    this.render();
+  }
+
+  /**
+   * Shows the current run state right away, and rescans titles and pins
+   * (which reads every source) once a burst of tree refreshes has settled.
+   */
+  scheduleRefresh() {
+    this.render();
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refresh().catch((err) =>
+        vscode.window.showErrorMessage(`Could not update the Runway status bar: ${(err as Error).message}`)
+      );
+    }, 500);
+  }
+
+  dispose() {
+    clearInterval(this.ticker);
+    clearTimeout(this.refreshTimer);
+    this.summary.dispose();
+    this.pinnedItems.forEach((item) => item.dispose());
+  }
+
+  private render() {
+    const running = this.running();
+    const now = Date.now();
+    if (this.anyRunning !== running.length > 0) {
+      this.anyRunning = running.length > 0;
+      vscode.commands.executeCommand("setContext", "runway.anyRunning", this.anyRunning);
+    }
+    if (running.length) {
+      this.summary.text = `▶ ${running.length}`;
+      const tooltip = new vscode.MarkdownString(undefined, true);
+      for (const r of running) {
+        const count = this.runs.runningCount(r.scriptId);
+        tooltip.appendMarkdown(`$(play) **${this.titleOf(r.scriptId)}**${count > 1 ? ` ×${count}` : ""} — ${formatDuration(now - r.startedAt)}  \n`);
+      }
+      tooltip.appendMarkdown("\nClick to focus, restart or stop");
+      this.summary.tooltip = tooltip;
+      this.summary.show();
+      this.ticker ??= setInterval(() => this.render(), 1000);
+    } else {
+      this.summary.hide();
+      clearInterval(this.ticker);
+      this.ticker = undefined;
+    }
+
+    for (const [id, item] of this.pinnedItems) {
+      const active = running.find((r) => r.scriptId === id);
+      item.text = `${active ? "$(sync~spin)" : "$(play)"} ${this.titleOf(id)}`;
+      item.tooltip = active
+        ? `${this.titleOf(id)} — running for ${formatDuration(now - active.startedAt)}. Click to show its terminal.`
+        : `Run ${this.titleOf(id)}`;
+      item.show();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Run history
+// ---------------------------------------------------------------------------
+
+interface RunRecord {
+  scriptId: string;
+  /** terminal name at the time of the run, for display */
+  label: string;
+  /** the command actually run (override and arguments applied) */
+  command: string;
+  cwd?: string;
+  startedAt: number;
+  endedAt?: number;
+  /** undefined when the run was interrupted or its exit could not be detected */
+  exitCode?: number;
+}
+
+/** Persisted list of runs, newest first (workspace-state). */
+class RunHistory {
+  private static readonly KEY = "runway.history";
+  private static readonly MAX = 200;
+  /** how many records the Recent Runs section lists */
+  static readonly SHOWN = 50;
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  all(): RunRecord[] {
+    return this.state.get<RunRecord[]>(RunHistory.KEY) ?? [];
+  }
+
+  last(scriptId: string): RunRecord | undefined {
+    return this.all().find((r) => r.scriptId === scriptId);
+  }
+
+  async start(run: ScriptRun) {
+    const record: RunRecord = {
+      scriptId: run.scriptId,
+      label: run.terminal.name,
+      command: run.command,
+      cwd: run.cwd,
+      startedAt: run.startedAt,
+    };
+    await this.state.update(RunHistory.KEY, [record, ...this.all()].slice(0, RunHistory.MAX));
+  }
+
+  async end(run: ScriptRun, exitCode: number | undefined) {
+    const all = this.all();
+    const i = all.findIndex((r) => r.scriptId === run.scriptId && r.startedAt === run.startedAt);
+    if (i < 0) return;
+    await this.state.update(RunHistory.KEY, all.map((r, j) => (j === i ? { ...r, endedAt: Date.now(), exitCode } : r)));
+  }
+
+  /**
+   * Marks runs still open from a previous session as interrupted — the
+   * window closed or reloaded before they ended.  Call before anything runs.
+   */
+  async endInterrupted() {
+    const all = this.all();
+    if (all.every((r) => r.endedAt !== undefined)) return;
+    const now = Date.now();
+    await this.state.update(RunHistory.KEY, all.map((r) => (r.endedAt === undefined ? { ...r, endedAt: now, exitCode: undefined } : r)));
+  }
+
+  async clear() {
+    await this.state.update(RunHistory.KEY, []);
+  }
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const mins = Math.floor(ms / 60_000);
+  if (mins < 60) return `${mins}m ${Math.floor((ms % 60_000) / 1000)}s`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+function formatAgo(timestamp: number): string {
+  const mins = Math.floor((Date.now() - timestamp) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins} min ago`;
+  if (mins < 24 * 60) return `${Math.floor(mins / 60)} h ago`;
+  return `${Math.floor(mins / (24 * 60))} d ago`;
+}
+
+/** One-line summary of a run, e.g. "✓ exit 0 in 12.3s · 5 min ago". */
+function describeRun(r: RunRecord, withPrefix: boolean): string {
+  const prefix = withPrefix ? "Last run: " : "";
+  if (r.endedAt === undefined) return `${prefix}running since ${new Date(r.startedAt).toLocaleTimeString()}`;
+  const took = formatDuration(r.endedAt - r.startedAt);
+  const ago = formatAgo(r.endedAt);
+  if (r.exitCode === undefined) return `${prefix}interrupted after ${took} · ${ago}`;
+  return `${prefix}${r.exitCode === 0 ? "✓" : "✗"} exit ${r.exitCode} in ${took} · ${ago}`;
+}
+
+/**
+ * Decoration URI for a finished run.  The path keeps the file's basename so
+ * the icon theme can still pick a file icon; the query carries the result.
+ */
+function resultUri(script: Script, ok: boolean): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: "runway-result",
+    path: `/${path.basename(script.filePath ?? script.label)}`,
+    query: `${ok ? "ok" : "fail"}&${encodeURIComponent(script.id!)}`,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Watch mode  (re-run a script when matching files change)
+// ---------------------------------------------------------------------------
+
+interface WatchSpec {
+  /** folder the globs are relative to */
+  base: string;
+  /** globs relative to base; entries starting with "!" exclude matches */
+  globs: string[];
+  /** quiet period after the last change before re-running */
+  debounceMs: number;
+}
+
+const DEFAULT_WATCH_DEBOUNCE = 300;
+
+/** Starting point for a new watch: the script file itself for file scripts, nothing otherwise. */
+function defaultWatch(script: Script): WatchSpec {
+  if (script.kind === "fileScript" && script.filePath) {
+    return { base: path.dirname(script.filePath), globs: [path.basename(script.filePath)], debounceMs: DEFAULT_WATCH_DEBOUNCE };
+  }
+  return { base: script.cwd ?? path.dirname(script.filePath ?? ""), globs: [], debounceMs: DEFAULT_WATCH_DEBOUNCE };
+}
+
+function watchUri(script: Script): vscode.Uri {
+  const last = script.lastRun;
+  const state = last?.exitCode === undefined ? "none" : last.exitCode === 0 ? "ok" : "fail";
+  return vscode.Uri.from({
+    scheme: "runway-watch",
+    path: `/${path.basename(script.filePath ?? script.label)}`,
+    query: `${state}&${encodeURIComponent(script.id!)}`,
+  });
+}
+
+/** Asks for a script's watch globs and debounce, starting from its current watch. */
+async function editWatch(script: Script, current: WatchSpec | undefined): Promise<WatchSpec | undefined> {
+  const spec = current ?? defaultWatch(script);
+  const split = (value: string) => value.split(",").map((g) => g.trim()).filter(Boolean);
+  const globs = await vscode.window.showInputBox({
+    title: `Watch "${script.label}"`,
+    prompt: `Comma-separated globs relative to ${displayPath(spec.base)} — prefix with ! to exclude (e.g. src/**/*.ts, !src/generated/**)`,
+    value: spec.globs.join(", "),
+    validateInput: (v) => split(v).some((g) => !g.startsWith("!")) ? undefined : "Enter at least one pattern to watch",
+  });
+  if (globs === undefined) return undefined;
+  const debounce = await vscode.window.showInputBox({
+    title: `Watch "${script.label}"`,
+    prompt: "Milliseconds to wait after the last change before re-running",
+    value: String(spec.debounceMs),
+    validateInput: (v) => /^\d+$/.test(v.trim()) ? undefined : "Enter a whole number of milliseconds",
+  });
+  if (debounce === undefined) return undefined;
+  return { base: spec.base, globs: split(globs), debounceMs: Number(debounce.trim()) };
+}
+
+/**
+ * Keeps one set of file watchers per watched script and calls back, after
+ * the script's debounce, when a matching file is created or changed.
+ * Changes inside node_modules, .git and the like are ignored.
+ */
+class ScriptWatcher implements vscode.Disposable {
+  private readonly watchers = new Map<string, { spec: string; disposables: vscode.Disposable[] }>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly watches: ScriptStore<WatchSpec>,
+    private readonly onTrigger: (id: string) => void
+  ) {}
+
+  /** Call after a watch is added, edited or removed to reconcile watchers. */
+  sync() {
+    const all = this.watches.personal();
+    for (const [id, w] of this.watchers) {
+      if (all[id] && JSON.stringify(all[id]) === w.spec) continue;
+      w.disposables.forEach((d) => d.dispose());
+      this.watchers.delete(id);
+      clearTimeout(this.timers.get(id));
+      this.timers.delete(id);
+    }
+    for (const [id, spec] of Object.entries(all)) {
+      if (!this.watchers.has(id)) this.watchers.set(id, { spec: JSON.stringify(spec), disposables: this.watch(id, spec) });
+    }
+  }
 
-    if (appLower === "warp") {
-      // Write a self-deleting temp script and open it in Warp
-      const tmpFile = `/tmp/runway_${Date.now()}.sh`;
-      fs.writeFileSync(tmpFile, `#!/bin/zsh\n${fullCmd}\nrm -- "$0"\n`, { mode: 0o755 });
-      exec(`open -a Warp "${tmpFile}"`);
+  dispose() {
+    this.watchers.forEach((w) => w.disposables.forEach((d) => d.dispose()));
+    this.timers.forEach((t) => clearTimeout(t));
+  }
 
-    } else if (appLower === "iterm" || appLower === "iterm2") {
-      const safeCmd = fullCmd.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-      const script = `tell application "iTerm2"
-  create window with default profile command "bash -c \\"${safeCmd}; exec bash\\""
-  activate
-end tell`;
-      exec(`osascript -e '${script.replace(/'/g, "'\\''")}'`);
+  private watch(id: string, spec: WatchSpec): vscode.Disposable[] {
+    // Resolve symlinks so the watcher monitors the real target
+    let base: string;
+    try { base = fs.realpathSync(spec.base); } catch { base = spec.base; }
+    const exclude = spec.globs.filter((g) => g.startsWith("!")).map((g) => g.slice(1));
+    const onEvent = (uri: vscode.Uri) => {
+      const rel = path.relative(base, uri.fsPath).split(path.sep);
+      const ignored = rel.some((_, i) => DEFAULT_SCAN_EXCLUDES.some((g) => matchesScanGlob(rel.slice(0, i + 1).join("/"), g)))
+        || exclude.some((g) => matchesScanGlob(rel.join("/"), g));
+      if (!ignored) this.schedule(id, spec.debounceMs);
+    };
+    return spec.globs.filter((g) => !g.startsWith("!")).map((glob) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(base), glob));
+      watcher.onDidChange(onEvent);
+      watcher.onDidCreate(onEvent);
+      return watcher;
+    });
+  }
 
-    } else {
-      // Terminal.app (default) and any other app via AppleScript do script
-      const safeCmd = fullCmd.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-      const script = `tell application "${app}"
-  do script "${safeCmd}"
-  activate
-end tell`;
-      exec(`osascript -e '${script.replace(/'/g, "'\\''")}'`);
+  private schedule(id: string, debounceMs: number) {
+    clearTimeout(this.timers.get(id));
+    this.timers.set(id, setTimeout(() => {
+      this.timers.delete(id);
+      this.onTrigger(id);
+    }, debounceMs));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Compound scripts
+// ---------------------------------------------------------------------------
+
+interface CompoundStep {
+  scriptId: string;
+  /** "parallel" starts together with the previous step, "serial" after it */
+  mode: "serial" | "parallel";
+  /** serial only — wait for the previous step(s) to exit before starting */
+  waitForExit?: boolean;
+  /** with waitForExit — abort the compound when a previous step exits non-zero */
+  stopOnFailure?: boolean;
+}
+
+interface Compound {
+  name: string;
+  steps: CompoundStep[];
+}
+
+function describeStep(step: CompoundStep, index: number): string {
+  if (index === 0) return "first";
+  if (step.mode === "parallel") return "in parallel with previous";
+  if (!step.waitForExit) return "after previous starts";
+  return step.stopOnFailure ? "after previous exits · stop on failure" : "after previous exits";
+}
+
+/**
+ * Runs compounds batch by batch: a serial step closes the current batch and
+ * starts a new one, parallel steps join the batch before them.  A compound
+ * counts as running until every step it launched has exited.
+ */
+class CompoundRunner implements vscode.Disposable {
+  private readonly active = new Map<string, { cancelled: boolean; runs: ScriptRun[]; startedAt: number }>();
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** Fires with the compound id whenever its running state changes. */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly runs: RunManager) {}
+
+  isRunning(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  activeRuns(): ActiveRun[] {
+    return [...this.active].map(([scriptId, state]) => ({ scriptId, startedAt: state.startedAt }));
+  }
+
+  /**
+   * @param start launches one step's script and returns its run, or
+   *   undefined when it could not be started (missing or refused)
+   */
+  async run(id: string, compound: Compound, start: (scriptId: string) => Promise<ScriptRun | undefined>) {
+    if (this.active.has(id)) return;
+    const state = { cancelled: false, runs: [] as ScriptRun[], startedAt: Date.now() };
+    this.active.set(id, state);
+    this._onDidChange.fire(id);
+
+    try {
+      let batch: ScriptRun[] = [];
+      for (const [i, step] of compound.steps.entries()) {
+        if (i > 0 && step.mode === "serial") {
+          if (step.waitForExit) {
+            const codes = await Promise.all(batch.map((r) => r.finished));
+            if (state.cancelled) return;
+            const failed = batch.find((_, j) => codes[j] !== 0);
+            if (step.stopOnFailure && failed) {
+              const code = codes[batch.indexOf(failed)];
+              vscode.window.showWarningMessage(
+                `"${compound.name}" stopped — ${failed.terminal.name} ${code === undefined ? "was interrupted" : `exited with code ${code}`}.`
+              );
+              return;
+            }
+          }
+          batch = [];
+        }
+        if (state.cancelled) return;
+        const run = await start(step.scriptId);
+        if (run) {
+          batch.push(run);
+          state.runs.push(run);
+        }
+      }
+      await Promise.all(state.runs.map((r) => r.finished));
+    } finally {
+      this.active.delete(id);
+      this._onDidChange.fire(id);
     }
+  }
 
-  } else if (process.platform === "win32") {
-    exec(`start cmd /K "${escaped(fullCmd)}"`);
+  /** Stops every terminal the compound started and skips its remaining steps. */
+  stop(id: string) {
+    const state = this.active.get(id);
+    if (!state) return;
+    state.cancelled = true;
+    for (const run of state.runs) this.runs.stopRun(run);
+  }
 
-  } else {
-    // Linux: try common terminal emulators in order of preference
-    const emulators = [
-      `gnome-terminal -- bash -c "${escaped(fullCmd)}; exec bash"`,
-      `xterm -e bash -c "${escaped(fullCmd)}; exec bash"`,
-      `konsole -e bash -c "${escaped(fullCmd)}; exec bash"`,
+  dispose() {
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * Step editor for a compound.  Loops until Save (resolving to the steps) or
+ * the picker is dismissed (resolving to undefined).
+ */
+async function editCompoundSteps(
+  name: string,
+  initial: CompoundStep[],
+  scripts: Script[],
+  title: (script: Script) => string
+): Promise<CompoundStep[] | undefined> {
+  const steps = initial.map((s) => ({ ...s }));
+  const titleOf = (id: string) => {
+    const script = scripts.find((s) => s.id === id);
+    return script ? title(script) : id;
+  };
+
+  for (;;) {
+    type Item = vscode.QuickPickItem & { index?: number; action?: "add" | "save" };
+    const items: Item[] = [
+      ...steps.map((step, i): Item => ({ label: `${i + 1}. ${titleOf(step.scriptId)}`, description: describeStep(step, i), index: i })),
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      { label: "$(add) Add Step...", action: "add" },
+      { label: "$(check) Save", action: "save" },
     ];
-    (function tryNext(i: number) {
-      if (i >= emulators.length) return;
-      exec(emulators[i], (err) => { if (err) tryNext(i + 1); });
-    })(0);
+    const picked = await vscode.window.showQuickPick(items, { title: `Compound "${name}"`, placeHolder: "Select a step to change it" });
+    if (!picked) return undefined;
+    if (picked.action === "save") return steps;
+
+    if (picked.action === "add") {
+      const script = await vscode.window.showQuickPick(
+        scripts.map((s) => ({ label: title(s), description: s.kind === "fileScript" ? undefined : s.filePath && displayPath(s.filePath), detail: s.defaultCommand, script: s })),
+        { placeHolder: "Script to add", matchOnDescription: true, matchOnDetail: true }
+      );
+      if (!script) continue;
+      const mode = steps.length ? await pickStepMode() : { mode: "serial" as const };
+      if (!mode) continue;
+      steps.push({ scriptId: script.script.id!, ...mode });
+      continue;
+    }
+
+    const i = picked.index!;
+    const action = await vscode.window.showQuickPick(
+      [
+        ...(i > 0 ? ["Change When It Starts..."] : []),
+        ...(i > 0 ? ["Move Up"] : []),
+        ...(i < steps.length - 1 ? ["Move Down"] : []),
+        "Remove",
+      ],
+      { placeHolder: picked.label }
+    );
+    if (action === "Remove") steps.splice(i, 1);
+    else if (action === "Move Up") [steps[i - 1], steps[i]] = [steps[i], steps[i - 1]];
+    else if (action === "Move Down") [steps[i + 1], steps[i]] = [steps[i], steps[i + 1]];
+    else if (action) {
+      const mode = await pickStepMode();
+      if (mode) steps[i] = { scriptId: steps[i].scriptId, ...mode };
+    }
+  }
+}
+
+async function pickStepMode(): Promise<Omit<CompoundStep, "scriptId"> | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: "After the previous step exits", description: "stop if it fails", value: { mode: "serial" as const, waitForExit: true, stopOnFailure: true } },
+      { label: "After the previous step exits", description: "continue even if it fails", value: { mode: "serial" as const, waitForExit: true } },
+      { label: "After the previous step starts", value: { mode: "serial" as const } },
+      { label: "In parallel with the previous step", value: { mode: "parallel" as const } },
+    ],
+    { placeHolder: "When should this step start?" }
+  );
+  return picked?.value;
+}
+
+// ---------------------------------------------------------------------------
+// Script dependencies  (start other scripts first and wait until they're ready)
+// ---------------------------------------------------------------------------
+
+interface Dependency {
+  scriptId: string;
+  /** when the dependency counts as ready */
+  ready: "exit" | "output" | "port";
+  /** regular expression an output line must match, for "output" */
+  pattern?: string;
+  /** local TCP port that must accept connections, for "port" */
+  port?: number;
+  /** seconds to wait for readiness */
+  timeout?: number;
+}
+
+const DEFAULT_DEPENDENCY_TIMEOUT = 60;
+/** output lines kept per run for readiness patterns */
+const MAX_RECENT_LINES = 500;
+
+function describeDependency(dep: Dependency): string {
+  const timeout = `${dep.timeout ?? DEFAULT_DEPENDENCY_TIMEOUT}s timeout`;
+  switch (dep.ready) {
+    case "exit": return `ready when it exits with code 0 · ${timeout}`;
+    case "output": return `ready when output matches /${dep.pattern}/ · ${timeout}`;
+    case "port": return `ready when port ${dep.port} is open · ${timeout}`;
+  }
+}
+
+/** Whether making `id` depend on `dependencyId` would create a cycle. */
+function wouldCycle(id: string, dependencyId: string, all: Record<string, Dependency[]>): boolean {
+  const seen = new Set<string>();
+  const stack = [dependencyId];
+  while (stack.length) {
+    const next = stack.pop()!;
+    if (next === id) return true;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    stack.push(...(all[next] ?? []).map((d) => d.scriptId));
+  }
+  return false;
+}
+
+/**
+ * Starts a script's dependencies and waits for them to become ready before
+ * the script itself runs.  Dependencies shared by several scripts are only
+ * started once, and scripts that are waiting show as such in the tree.
+ */
+class DependencyRunner implements vscode.Disposable {
+  /** dependent script id → titles of the dependencies it is still waiting for */
+  private readonly waiting = new Map<string, { on: string[]; cancelled: boolean }>();
+  /** dependency id → its start in progress */
+  private readonly starting = new Map<string, Promise<ScriptRun | undefined>>();
+  /** runs started as a dependency, which must prove readiness from their own output */
+  private readonly launched = new WeakSet<ScriptRun>();
+  /** run → its most recent output lines (and the incomplete last one) */
+  private readonly recent = new Map<ScriptRun, { lines: string[]; partial: string }>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** Fires with the dependent script id whenever what it waits for changes. */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly runs: RunManager) {
+    this.disposables.push(
+      this._onDidChange,
+      runs.onDidStartRun((run) => this.recent.set(run, { lines: [], partial: "" })),
+      runs.onDidEndRun(({ run }) => this.recent.delete(run)),
+      runs.onDidOutput(({ run, data }) => {
+        const recent = this.recent.get(run);
+        if (!recent) return;
+        const lines = (recent.partial + stripAnsi(data)).split(/\r?\n/);
+        recent.partial = lines.pop() ?? "";
+        recent.lines.push(...lines);
+        if (recent.lines.length > MAX_RECENT_LINES) recent.lines.splice(0, recent.lines.length - MAX_RECENT_LINES);
+      })
+    );
+  }
+
+  waitingFor(id: string): string | undefined {
+    return this.waiting.get(id)?.on.join(", ");
+  }
+
+  /** Gives up waiting; the script won't start. */
+  cancel(id: string) {
+    const state = this.waiting.get(id);
+    if (state) state.cancelled = true;
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  /**
+   * Starts the dependencies that aren't running and waits until all are
+   * ready.  Resolves false — after telling the user why, unless cancelled —
+   * when one fails to start, exits early or times out.
+   *
+   * @param start runs a dependency (after its own dependencies)
+   */
+  async prepare(
+    id: string,
+    deps: Dependency[],
+    title: (id: string) => string,
+    start: (scriptId: string) => Promise<ScriptRun | undefined>
+  ): Promise<boolean> {
+    const state = { on: deps.map((d) => title(d.scriptId)), cancelled: false };
+    this.waiting.set(id, state);
+    this._onDidChange.fire(id);
+    try {
+      const failures = await Promise.all(deps.map(async (dep) => {
+        let run = this.runs.currentRun(dep.scriptId);
+        // A dependency already running as a task has no run to watch, but mustn't be restarted either
+        const asTask = !run && this.runs.isRunning(dep.scriptId);
+        if (!run && !asTask) run = await this.startOnce(dep.scriptId, start);
+        const failure = run || asTask ? await this.whenReady(dep, run, state) : "could not be started";
+        state.on.splice(state.on.indexOf(title(dep.scriptId)), 1);
+        this._onDidChange.fire(id);
+        if (failure) state.cancelled = true; // no point waiting for the rest
+        return failure && { dep, failure };
+      }));
+      const failed = failures.find((f) => f && f.failure !== "cancelled");
+      if (failed) {
+        vscode.window.showWarningMessage(`"${title(id)}" was not started — ${title(failed.dep.scriptId)} ${failed.failure}.`);
+      }
+      return !failures.some(Boolean);
+    } finally {
+      this.waiting.delete(id);
+      this._onDidChange.fire(id);
+    }
+  }
+
+  private startOnce(scriptId: string, start: (scriptId: string) => Promise<ScriptRun | undefined>) {
+    let pending = this.starting.get(scriptId);
+    if (!pending) {
+      pending = start(scriptId).then((run) => {
+        if (run) this.launched.add(run);
+        return run;
+      }).finally(() => this.starting.delete(scriptId));
+      this.starting.set(scriptId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Resolves undefined once the dependency is ready, or with why it never
+   * will be.  Without a run (the dependency is running as a task) only its
+   * port can be checked, and an "exit" dependency is ready once the task ends.
+   */
+  private async whenReady(dep: Dependency, run: ScriptRun | undefined, state: { cancelled: boolean }): Promise<string | undefined> {
+    let pattern: RegExp | undefined;
+    if (dep.ready === "output") {
+      // Output from before Runway started watching is gone; a dependency that
+      // was already running on its own is taken to be ready
+      if (!run || !this.launched.has(run)) return undefined;
+      try { pattern = new RegExp(dep.pattern ?? ""); } catch { return `has an invalid ready pattern /${dep.pattern}/`; }
+    }
+    let exitCode: number | undefined | null = null;
+    run?.finished.then((code) => { exitCode = code; });
+
+    const timeout = dep.timeout ?? DEFAULT_DEPENDENCY_TIMEOUT;
+    const deadline = Date.now() + timeout * 1000;
+    for (;;) {
+      if (state.cancelled) return "cancelled";
+      if (pattern) {
+        const recent = this.recent.get(run!);
+        if (recent && [...recent.lines, recent.partial].some((line) => pattern!.test(line))) return undefined;
+      }
+      if (dep.ready === "port" && await portInUse(dep.port!)) return undefined;
+      if (!run && !this.runs.isRunning(dep.scriptId)) return dep.ready === "exit" ? undefined : "stopped";
+      if (exitCode !== null) {
+        if (dep.ready === "exit" && exitCode === 0) return undefined;
+        return exitCode === undefined ? "was interrupted" : `exited with code ${exitCode}`;
+      }
+      if (Date.now() > deadline) return `wasn't ready within ${timeout}s`;
+      await sleep(dep.ready === "port" ? 500 : 200);
+    }
   }
 }
 
-function runInTerminal(
+/**
+ * Dependency editor for a script.  Loops until Save (resolving to the
+ * dependencies) or the picker is dismissed (resolving to undefined).
+ */
+async function editDependencies(
   script: Script,
-  command: string,
-  onStart: ((name: string) => void) | undefined,
-  pendingCommands: Map<string, string>,
-  trackedExecutions: Map<string, vscode.TerminalShellExecution>
-) {
-  const existing = vscode.window.terminals.find(t => t.name === script.label);
+  initial: Dependency[],
+  scripts: Script[],
+  title: (script: Script) => string,
+  all: Record<string, Dependency[]>,
+  usualPorts: ScriptStore<number>
+): Promise<Dependency[] | undefined> {
+  const id = script.id!;
+  const deps = initial.map((d) => ({ ...d }));
+  const titleOf = (depId: string) => {
+    const found = scripts.find((s) => s.id === depId);
+    return found ? title(found) : depId;
+  };
 
-  if (existing) {
-    existing.show();
-    if (existing.shellIntegration) {
-      // Shell integration already active — interrupt anything running then re-execute
-      existing.sendText("\x03");
-      setTimeout(() => {
-        const execution = existing.shellIntegration!.executeCommand(command);
-        trackedExecutions.set(existing.name, execution);
-        onStart?.(existing.name);
-      }, 100);
-    } else {
-      // No shell integration on this terminal — queue for when it activates,
-      // with a fallback to sendText after 3 s.
-      existing.sendText("\x03");
-      pendingCommands.set(existing.name, command);
-      setTimeout(() => {
-        if (pendingCommands.get(existing.name) === command) {
-          pendingCommands.delete(existing.name);
-          existing.sendText(command);
-        }
-        onStart?.(existing.name);
-      }, 3000);
+  for (;;) {
+    type Item = vscode.QuickPickItem & { index?: number; action?: "add" | "save" };
+    const items: Item[] = [
+      ...deps.map((dep, i): Item => ({ label: titleOf(dep.scriptId), description: describeDependency(dep), index: i })),
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      { label: "$(add) Add Dependency...", action: "add" },
+      { label: "$(check) Save", action: "save" },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Dependencies of "${title(script)}"`,
+      placeHolder: "Scripts started (and waited for) before this one — select one to change it",
+    });
+    if (!picked) return undefined;
+    if (picked.action === "save") return deps;
+
+    if (picked.action === "add") {
+      const candidates = scripts.filter((s) =>
+        s.id !== id && !deps.some((d) => d.scriptId === s.id) && !wouldCycle(id, s.id!, { ...all, [id]: deps }));
+      const target = await vscode.window.showQuickPick(
+        candidates.map((s) => ({ label: title(s), description: s.kind === "fileScript" ? undefined : s.filePath && displayPath(s.filePath), detail: s.defaultCommand, script: s })),
+        { placeHolder: "Script to start first", matchOnDescription: true, matchOnDetail: true }
+      );
+      if (!target) continue;
+      const readiness = await pickReadiness(undefined, usualPorts.get(target.script.id!));
+      if (readiness) deps.push({ scriptId: target.script.id!, ...readiness });
+      continue;
     }
-  } else {
-    const shell = process.env.SHELL ?? "/bin/zsh";
-    const terminal = vscode.window.createTerminal({
-      name: script.label,
-      cwd: script.cwd,
-      shellPath: shell,
+
+    const i = picked.index!;
+    const action = await vscode.window.showQuickPick(["Change Readiness...", "Remove"], { placeHolder: picked.label });
+    if (action === "Remove") deps.splice(i, 1);
+    else if (action) {
+      const readiness = await pickReadiness(deps[i], usualPorts.get(deps[i].scriptId));
+      if (readiness) deps[i] = { scriptId: deps[i].scriptId, ...readiness };
+    }
+  }
+}
+
+async function pickReadiness(current: Dependency | undefined, usualPort: number | undefined): Promise<Omit<Dependency, "scriptId"> | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: "When it exits with code 0", description: "for builds and other one-shot steps", value: "exit" as const },
+      { label: "When its output matches a pattern...", description: "e.g. ready in, compiled successfully", value: "output" as const },
+      { label: "When a port is open...", description: "for servers", value: "port" as const },
+    ],
+    { placeHolder: "When is the dependency ready?" }
+  );
+  if (!picked) return undefined;
+
+  const readiness: Omit<Dependency, "scriptId"> = { ready: picked.value };
+  if (picked.value === "output") {
+    const pattern = await vscode.window.showInputBox({
+      prompt: "Regular expression an output line must match",
+      value: current?.pattern ?? "ready",
+      validateInput: (v) => {
+        try { new RegExp(v); return v ? undefined : "Enter a pattern"; } catch (e) { return (e as Error).message; }
+      },
     });
-    terminal.show();
-    // Queue the command — onDidChangeTerminalShellIntegration will execute it.
-    // Fall back to sendText after 3 s if shell integration never activates.
-    pendingCommands.set(script.label, command);
-    setTimeout(() => {
-      if (pendingCommands.get(script.label) === command) {
-        pendingCommands.delete(script.label);
-        terminal.sendText(command);
-      }
-      // onDidOpenTerminal already called markRunning for new terminals
-    }, 3000);
+    if (pattern === undefined) return undefined;
+    readiness.pattern = pattern;
+  } else if (picked.value === "port") {
+    const port = await vscode.window.showInputBox({
+      prompt: "Local TCP port that must accept connections",
+      value: String(current?.port ?? usualPort ?? ""),
+      validateInput: (v) => /^\d+$/.test(v.trim()) && +v > 0 && +v < 65536 ? undefined : "Enter a port number",
+    });
+    if (port === undefined) return undefined;
+    readiness.port = Number(port.trim());
+  }
+
+  const timeout = await vscode.window.showInputBox({
+    prompt: "Seconds to wait for it to become ready",
+    value: String(current?.timeout ?? DEFAULT_DEPENDENCY_TIMEOUT),
+    validateInput: (v) => /^\d+$/.test(v.trim()) && +v > 0 ? undefined : "Enter a number of seconds",
+  });
+  if (timeout === undefined) return undefined;
+  if (Number(timeout) !== DEFAULT_DEPENDENCY_TIMEOUT) readiness.timeout = Number(timeout);
+  return readiness;
+}
+
+// ---------------------------------------------------------------------------
+// New script scaffolding
+// ---------------------------------------------------------------------------
+
+/** Workspace folder whose files override or add to the built-in boilerplate. */
+const TEMPLATES_DIR = ".runway/templates";
+
+interface ScriptTemplate {
+  label: string;
+  description?: string;
+  type: FileScriptType;
+  /** extension the new file gets */
+  ext: string;
+  content: string;
+}
+
+/**
+ * Built-in boilerplate for every file type, plus the team's templates.  A
+ * template named after a type's kind (`shell.sh`, `python.py`) replaces
+ * that type's boilerplate; any other template (`deploy.sh`) is an extra choice.
+ */
+function loadScriptTemplates(root: string | undefined): ScriptTemplate[] {
+  const templates: ScriptTemplate[] = FILE_SCRIPT_TYPES
+    .filter((t) => t.extensions.length)
+    .map((t) => ({
+      label: t.label.replace(/ Scripts$/, " Script"),
+      description: t.extensions.join(" "),
+      type: t,
+      ext: t.extensions[0],
+      content: t.boilerplate,
+    }));
+
+  if (!root) return templates;
+  let files: string[];
+  try { files = fs.readdirSync(path.join(root, TEMPLATES_DIR)).sort(); } catch { return templates; }
+
+  for (const file of files) {
+    const ext = path.extname(file);
+    const type = EXT_TO_TYPE.get(ext);
+    if (!type) continue;
+    let content: string;
+    try { content = fs.readFileSync(path.join(root, TEMPLATES_DIR, file), "utf8"); } catch { continue; }
+    const builtIn = templates.find((t) => t.type === type && path.basename(file, ext) === type.kind);
+    if (builtIn) {
+      builtIn.content = content;
+      builtIn.ext = ext;
+      builtIn.description = `${TEMPLATES_DIR}/${file}`;
+    } else {
+      templates.push({ label: file, description: `${TEMPLATES_DIR}/${file}`, type, ext, content });
+    }
+  }
+  return templates;
+}
+
+/**
+ * Creates a script from a template in a directory source (or the folder
+ * row it was started from), opens it and refreshes the tree.
+ */
+async function newScript(
+  sources: SourceStore,
+  provider: ScriptProvider,
+  watcherManager: WatcherManager,
+  updateMessage: () => void,
+  item?: ScriptItem
+) {
+  // Where: the clicked folder row or directory source, else pick one
+  const dirs = sources.getAll().filter((s) => s.type === "directory");
+  let dir = item?.script.kind === "folder"
+    ? item.script.filePath
+    : dirs.find((s) => s.path === item?.script.sourcePath)?.path;
+  if (!dir) {
+    if (dirs.length === 1) {
+      dir = dirs[0].path;
+    } else if (dirs.length > 1) {
+      dir = (await vscode.window.showQuickPick(
+        dirs.map((s) => ({ label: displayPath(s.path), path: s.path })),
+        { placeHolder: "Create the script in which directory?" }
+      ))?.path;
+      if (!dir) return;
+    } else {
+      // No directory source yet — the chosen folder becomes one
+      const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        defaultUri: defaultFolderUri(),
+        openLabel: "Create Script Here",
+      });
+      if (!picked?.length) return;
+      dir = resolveToWorkspace(picked[0].fsPath);
+      await sources.add({ type: "directory", path: dir });
+      watcherManager.sync();
+      updateMessage();
+    }
+  }
+
+  // What: templates for the clicked category's language, or all of them
+  let templates = loadScriptTemplates(workspaceFolderFor(dir)?.uri.fsPath);
+  const categoryKind = item?.script.kind === "fileCategory" ? item.script.categoryKind : undefined;
+  if (categoryKind && categoryKind !== "bun") templates = templates.filter((t) => t.type.kind === categoryKind);
+  const template = templates.length === 1
+    ? templates[0]
+    : await vscode.window.showQuickPick(templates, { placeHolder: "Select a language or template" });
+  if (!template) return;
+
+  const target = dir;
+  const input = await vscode.window.showInputBox({
+    prompt: `New script in ${displayPath(target)}`,
+    value: `new-script${template.ext}`,
+    valueSelection: [0, "new-script".length],
+    validateInput: (v) => {
+      const name = v.trim();
+      if (!name) return "Enter a file name";
+      if (/[\\/]/.test(name)) return "Enter a file name, not a path";
+      const file = template.type.extensions.includes(path.extname(name)) ? name : name + template.ext;
+      return fs.existsSync(path.join(target, file)) ? `${file} already exists` : null;
+    },
+  });
+  if (!input) return;
+  const name = input.trim();
+  const filePath = path.join(target, template.type.extensions.includes(path.extname(name)) ? name : name + template.ext);
+
+  try {
+    await fs.promises.writeFile(filePath, template.content, { encoding: "utf8", flag: "wx" });
+    // Shebang scripts can then be run directly (./script.sh)
+    if (template.content.startsWith("#!")) await fs.promises.chmod(filePath, 0o755);
+  } catch (err) {
+    vscode.window.showErrorMessage(`Could not create ${path.basename(filePath)}: ${(err as Error).message}`);
+    return;
   }
+
+  provider.refresh();
+  await vscode.window.showTextDocument(vscode.Uri.file(filePath));
 }
 
 // ---------------------------------------------------------------------------
@@ -1424,7 +6289,7 @@ async function addPackageJson(
   watcherManager: WatcherManager,
   updateMessage: () => void
 ) {
-  const wsRoot = vscode.workspace.workspaceFolders?.[0].uri;
+  const wsRoot = defaultFolderUri();
 
   const picked = await vscode.window.showOpenDialog({
     canSelectFiles: true,
@@ -1453,13 +6318,87 @@ async function addPackageJson(
   }
 }
 
+async function addTaskFile(
+  sources: SourceStore,
+  provider: ScriptProvider,
+  watcherManager: WatcherManager,
+  updateMessage: () => void
+) {
+  const wsRoot = defaultFolderUri();
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: false,
+    canSelectMany: true,
+    defaultUri: wsRoot,
+    openLabel: "Add Task File",
+    // justfiles have no extension, hence "All files"
+    filters: { "Task files": ["yml", "yaml", "json", "jsonc"], "All files": ["*"] },
+  });
+  if (!picked?.length) return;
+
+  let added = 0;
+  for (const uri of picked) {
+    const name = path.basename(uri.fsPath);
+    const runner = TASK_RUNNERS.find((r) => r.fileNames.includes(name));
+    if (!runner) {
+      vscode.window.showWarningMessage(
+        `Skipped ${name} — expected a justfile, Taskfile.yml, deno.json(c) or composer.json.`
+      );
+      continue;
+    }
+    if (await sources.add({ type: runner.type, path: resolveToWorkspace(uri.fsPath) })) added++;
+  }
+
+  if (added > 0) {
+    watcherManager.sync();
+    provider.refresh();
+    updateMessage();
+  }
+}
+
+async function addWorkspace(
+  sources: SourceStore,
+  provider: ScriptProvider,
+  watcherManager: WatcherManager,
+  updateMessage: () => void
+) {
+  const wsRoot = defaultFolderUri();
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: true,
+    defaultUri: wsRoot,
+    openLabel: "Add Workspace",
+  });
+  if (!picked?.length) return;
+
+  let added = 0;
+  for (const uri of picked) {
+    if (!readWorkspaceGlobs(uri.fsPath).length) {
+      vscode.window.showWarningMessage(
+        `Skipped ${path.basename(uri.fsPath)} — no pnpm-workspace.yaml or package.json "workspaces" field found.`
+      );
+      continue;
+    }
+    if (await sources.add({ type: "workspace", path: resolveToWorkspace(uri.fsPath) })) added++;
+  }
+
+  if (added > 0) {
+    watcherManager.sync();
+    provider.refresh();
+    updateMessage();
+  }
+}
+
 async function addDirectory(
   sources: SourceStore,
   provider: ScriptProvider,
   watcherManager: WatcherManager,
   updateMessage: () => void
 ) {
-  const wsRoot = vscode.workspace.workspaceFolders?.[0].uri;
+  const wsRoot = defaultFolderUri();
 
   const picked = await vscode.window.showOpenDialog({
     canSelectFiles: false,
@@ -1470,9 +6409,29 @@ async function addDirectory(
   });
   if (!picked?.length) return;
 
+  // Only ask about recursion when there is something to recurse into
+  const hasSubfolders = picked.some((uri) => {
+    try {
+      return fs.readdirSync(uri.fsPath, { withFileTypes: true })
+        .some((e) => e.isDirectory() && !DEFAULT_SCAN_EXCLUDES.includes(e.name) && !e.name.startsWith("."));
+    } catch { return false; }
+  });
+  let recursive: boolean | undefined;
+  if (hasSubfolders) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: "Top Level Only", recursive: undefined },
+        { label: "Include Subfolders", recursive: true },
+      ],
+      { placeHolder: "Scan subfolders too? (change later with Directory Scan Options...)" }
+    );
+    if (!choice) return;
+    recursive = choice.recursive;
+  }
+
   let added = 0;
   for (const uri of picked) {
-    if (await sources.add({ type: "directory", path: resolveToWorkspace(uri.fsPath) })) added++;
+    if (await sources.add({ type: "directory", path: resolveToWorkspace(uri.fsPath), recursive })) added++;
   }
 
   if (added > 0) {
@@ -1482,13 +6441,70 @@ async function addDirectory(
   }
 }
 
+/** Scan settings of a directory source, edited in a loop like the environment editor. */
+async function editScanOptions(src: Source): Promise<Pick<Source, "recursive" | "maxDepth" | "include" | "exclude">> {
+  const options = { recursive: src.recursive, maxDepth: src.maxDepth, include: src.include, exclude: src.exclude };
+  type Item = vscode.QuickPickItem & { action: "done" | "recursive" | "maxDepth" | "include" | "exclude" };
+  const globs = (input: string) => input.split(",").map((g) => g.trim()).filter(Boolean);
+
+  for (;;) {
+    const items: Item[] = [
+      {
+        label: `${options.recursive ? "$(check)" : "$(circle-large-outline)"} Scan Subfolders`,
+        action: "recursive",
+      },
+      { label: "$(list-tree) Max Depth...", description: options.maxDepth?.toString() ?? "unlimited", action: "maxDepth" },
+      { label: "$(filter) Include...", description: options.include?.join(", ") ?? "all files", action: "include" },
+      {
+        label: "$(circle-slash) Exclude...",
+        description: (options.exclude ?? DEFAULT_SCAN_EXCLUDES).join(", ") || "nothing",
+        action: "exclude",
+      },
+      { label: "", kind: vscode.QuickPickItemKind.Separator, action: "done" },
+      { label: "$(check) Done", action: "done" },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Scan Options for ${displayPath(src.path)}`,
+      placeHolder: "Select a setting to change",
+    });
+    if (!picked || picked.action === "done") break;
+
+    if (picked.action === "recursive") {
+      options.recursive = options.recursive ? undefined : true;
+    } else if (picked.action === "maxDepth") {
+      const input = await vscode.window.showInputBox({
+        prompt: "Subfolder levels to scan (clear for unlimited)",
+        value: options.maxDepth?.toString() ?? "",
+        validateInput: (v) => (!v.trim() || /^\d+$/.test(v.trim()) ? null : "Enter a whole number"),
+      });
+      if (input !== undefined) options.maxDepth = input.trim() ? Number(input.trim()) : undefined;
+    } else if (picked.action === "include") {
+      const input = await vscode.window.showInputBox({
+        prompt: "Only list files matching these globs, comma-separated (clear to list all files)",
+        value: options.include?.join(", ") ?? "",
+        placeHolder: "*.sh, release/**",
+      });
+      if (input !== undefined) options.include = globs(input).length ? globs(input) : undefined;
+    } else {
+      const input = await vscode.window.showInputBox({
+        prompt: "Skip files and folders matching these globs, comma-separated (clear to restore the defaults)",
+        value: (options.exclude ?? DEFAULT_SCAN_EXCLUDES).join(", "),
+        placeHolder: DEFAULT_SCAN_EXCLUDES.join(", "),
+      });
+      if (input !== undefined) options.exclude = globs(input).length ? globs(input) : undefined;
+    }
+  }
+
+  return options;
+}
+
 async function addFile(
   sources: SourceStore,
   provider: ScriptProvider,
   watcherManager: WatcherManager,
   updateMessage: () => void
 ) {
-  const wsRoot = vscode.workspace.workspaceFolders?.[0].uri;
+  const wsRoot = defaultFolderUri();
 
   const allExts = FILE_SCRIPT_TYPES.flatMap((t) => t.extensions.map((e) => e.slice(1)));
   const picked = await vscode.window.showOpenDialog({
@@ -1497,14 +6513,15 @@ async function addFile(
     canSelectMany: true,
     defaultUri: wsRoot,
     openLabel: "Add Script File",
-    filters: { "Script files": allExts },
+    // Makefiles usually have no extension, hence "All files"
+    filters: { "Script files": allExts, "Makefiles": ["mk"], "All files": ["*"] },
   });
   if (!picked?.length) return;
 
   let added = 0;
   for (const uri of picked) {
     const ext = path.extname(uri.fsPath);
-    if (!EXT_TO_TYPE.has(ext)) {
+    if (!EXT_TO_TYPE.has(ext) && !isMakefile(uri.fsPath)) {
       vscode.window.showWarningMessage(`Unsupported file type: ${ext}`);
       continue;
     }